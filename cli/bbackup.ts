@@ -1,17 +1,66 @@
 #!/usr/bin/env bun
 
+import { createReadStream, createWriteStream } from 'node:fs';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { Readable, Writable } from 'node:stream';
 import { Command } from 'commander';
 import {
+  addBundleEntry,
+  addKeyslot,
+  type BackupKdf,
+  type BundleBackup,
+  buildYoursWalletZip,
+  combineShares,
+  DEFAULT_ARGON2ID_PARAMS,
   type DecryptedBackup,
   decryptBackup,
+  decryptBackupStream,
+  deriveAccountBackup,
+  deriveFromBackup,
+  describeBackup,
+  type EncryptOptions,
+  EXPORT_FORMATS,
+  type ExportFormat,
   encryptBackup,
+  encryptBackupStream,
+  exportBackup,
+  extractAccountBackup,
+  extractYoursWalletAccounts,
+  getBackupType,
+  getBundleEntry,
+  IMPORT_FORMATS,
+  type ImportFormat,
+  importBackup,
+  inspectBackup,
+  isBundleBackup,
+  isMasterBackup,
+  isYoursWalletZipBackup,
+  listBapIdentities,
+  migrateLegacyToType42,
+  type PassphraseKdfInfo,
+  parseYoursWalletZip,
   RECOMMENDED_PBKDF2_ITERATIONS,
+  type RecipientDecryptOptions,
+  rekeyBackup,
+  removeBundleEntry,
+  removeKeyslot,
+  resealBackup,
+  splitBackup,
+  validateBackupKeys,
+  validateYoursWalletZip,
+  type YoursWalletZipBackup,
 } from '../src/index';
 
 const program = new Command();
 
+/**
+ * Inputs larger than this that are not JSON are encrypted with streaming
+ * (chunked) encryption. Yours Wallet ZIPs are then kept as their raw bytes,
+ * which `dec` writes back out as the original ZIP.
+ */
+const STREAM_THRESHOLD_BYTES = 64 * 1024 * 1024;
+
 program
   .name('bbackup')
   .description('CLI tool for managing and securing Bitcoin-related identity backups.')
@@ -60,11 +109,247 @@ async function maybeCachePassword(opts: {
   console.log('Password cached with Touch ID for future use.');
 }
 
+/** Write a file via a temporary sibling and rename, so readers never see a partial file. */
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Format a decrypted payload as JSON. Yours Wallet ZIP raw entries are bytes
+ * and decoded settings and chunks may hold bigint, neither of which JSON can
+ * hold; bytes are written as Base64 and bigints as decimal strings.
+ */
+function formatPayload(payload: unknown): string {
+  return JSON.stringify(
+    payload,
+    (_key, value) => {
+      if (typeof value === 'bigint') return value.toString();
+      if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+      return value;
+    },
+    2
+  );
+}
+
+/** Read up to `length` bytes from the start of a file. */
+async function readFileHead(filePath: string, length: number): Promise<Uint8Array> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const head = new Uint8Array(length);
+    const { bytesRead } = await handle.read(head, 0, length, 0);
+    return head.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** True if the file starts with the raw (binary) envelope magic written by streaming encryption. */
+async function isStreamedBackup(filePath: string): Promise<boolean> {
+  return new TextDecoder().decode(await readFileHead(filePath, 3)) === 'BEP';
+}
+
+/** True if the bytes start with a ZIP local file header, or are an empty ZIP archive. */
+function isZipArchive(bytes: Uint8Array): boolean {
+  return (
+    bytes[0] === 0x50 &&
+    bytes[1] === 0x4b &&
+    ((bytes[2] === 0x03 && bytes[3] === 0x04) || (bytes[2] === 0x05 && bytes[3] === 0x06))
+  );
+}
+
+/**
+ * Pass a byte stream through unchanged, failing it unless it starts with a ZIP
+ * header, for `dec --format zip` of a streamed backup (written from the ZIP's raw bytes).
+ */
+function requireZipStream(): TransformStream<Uint8Array, Uint8Array> {
+  let head = new Uint8Array(0);
+  let checked = false;
+  const check = () => {
+    if (!isZipArchive(head)) {
+      throw new Error('--format zip requires a backup of a Yours Wallet ZIP.');
+    }
+    checked = true;
+  };
+  return new TransformStream({
+    transform(chunk, controller) {
+      if (!checked) {
+        head = new Uint8Array([...head, ...chunk.subarray(0, 4 - head.length)]);
+        if (head.length >= 4) check();
+      }
+      controller.enqueue(chunk);
+    },
+    flush() {
+      if (!checked) check();
+    },
+  });
+}
+
+/** Print the validation warnings of a parsed Yours Wallet backup ZIP. */
+function printZipWarnings(zipBackup: YoursWalletZipBackup): void {
+  for (const warning of validateYoursWalletZip(zipBackup).warnings) {
+    console.warn(`Warning: ${warning.account ? `${warning.account}: ` : ''}${warning.message}`);
+  }
+}
+
+/** Read a backup from a JSON file, decrypting it first if it is an encrypted .bep file. */
+async function readBackupFile(
+  inputFile: string,
+  options: { password?: string; touchid?: boolean }
+): Promise<DecryptedBackup> {
+  const content = (await fs.readFile(path.resolve(inputFile), 'utf-8')).trim();
+  if (content.startsWith('{')) return JSON.parse(content) as DecryptedBackup;
+  const password = await resolvePassword({
+    password: options.password,
+    touchid: options.touchid,
+    bepFilePath: inputFile,
+  });
+  return decryptBackup(content, password);
+}
+
+/** Open a file as a web byte stream. */
+function readFileStream(filePath: string): ReadableStream<Uint8Array> {
+  return Readable.toWeb(createReadStream(filePath)) as unknown as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Pipe a web byte stream into a file, or to stdout when no path is given. Files
+ * are written via a temporary sibling and renamed once the stream has ended
+ * without error, so a failed (e.g. unauthenticated) stream leaves no output.
+ */
+async function writeFileStream(
+  filePath: string | undefined,
+  stream: ReadableStream<Uint8Array>
+): Promise<void> {
+  if (!filePath) {
+    await stream.pipeTo(Writable.toWeb(process.stdout) as unknown as WritableStream<Uint8Array>);
+    return;
+  }
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    const target = createWriteStream(tempPath);
+    await stream.pipeTo(Writable.toWeb(target) as unknown as WritableStream<Uint8Array>);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/** Resolve an --identity-key value: a WIF/hex key, or a path to a file containing one. */
+async function resolveIdentityKey(value: string): Promise<string> {
+  try {
+    return (await fs.readFile(path.resolve(value), 'utf-8')).trim();
+  } catch {
+    return value.trim();
+  }
+}
+
+/** KDF flags shared by commands that write a new encrypted backup. */
+interface KdfCliOptions {
+  kdf: string;
+  iterations: number;
+  argon2Memory: number;
+  argon2Time: number;
+  argon2Parallelism: number;
+}
+
+/** Register the --kdf / Argon2id cost flags on a command. */
+function addKdfOptions(command: Command): Command {
+  const toInt = (val: string) => Number.parseInt(val, 10);
+  return command
+    .option('--kdf <kdf>', 'Key derivation function: pbkdf2-sha256 or argon2id', 'pbkdf2-sha256')
+    .option(
+      '--argon2-memory <kib>',
+      'Argon2id memory cost in KiB',
+      toInt,
+      DEFAULT_ARGON2ID_PARAMS.memory
+    )
+    .option('--argon2-time <passes>', 'Argon2id time cost', toInt, DEFAULT_ARGON2ID_PARAMS.time)
+    .option(
+      '--argon2-parallelism <lanes>',
+      'Argon2id parallelism',
+      toInt,
+      DEFAULT_ARGON2ID_PARAMS.parallelism
+    );
+}
+
+/** Translate KDF CLI flags into encryptBackup options, exiting on an unknown KDF. */
+function toEncryptOptions(options: KdfCliOptions): EncryptOptions {
+  if (options.kdf !== 'pbkdf2-sha256' && options.kdf !== 'argon2id') {
+    console.error(`Unknown KDF "${options.kdf}". Use pbkdf2-sha256 or argon2id.`);
+    process.exit(1);
+  }
+  const kdf: BackupKdf = options.kdf;
+  if (kdf === 'argon2id') {
+    return {
+      kdf,
+      argon2: {
+        memory: options.argon2Memory,
+        time: options.argon2Time,
+        parallelism: options.argon2Parallelism,
+      },
+    };
+  }
+  return { kdf, iterations: options.iterations };
+}
+
+/** Human-readable summary of the KDF an EncryptOptions selects. */
+function describeKdf(options: EncryptOptions): string {
+  if (options.kdf === 'argon2id') {
+    const { memory, time, parallelism } = options.argon2 ?? {};
+    return `Argon2id (memory ${memory} KiB, time ${time}, parallelism ${parallelism})`;
+  }
+  return `${options.iterations} PBKDF2 iterations`;
+}
+
+/** Human-readable summary of a KDF recorded in an envelope or keyslot. */
+function formatKdfInfo(kdf: PassphraseKdfInfo): string {
+  if (kdf.id === 'argon2id') {
+    return `argon2id (memory ${kdf.memory} KiB, time ${kdf.time}, parallelism ${kdf.parallelism})`;
+  }
+  return `pbkdf2-sha256 (${kdf.iterations} iterations)`;
+}
+
+/** The secret that opens a bundle: the private key given with --identity-key, or its passphrase. */
+async function resolveBundleSecret(
+  bundleFile: string,
+  options: { password?: string; touchid?: boolean; identityKey?: string }
+): Promise<string | RecipientDecryptOptions> {
+  if (options.identityKey) return { privateKey: await resolveIdentityKey(options.identityKey) };
+  return resolvePassword({
+    password: options.password,
+    touchid: options.touchid,
+    bepFilePath: bundleFile,
+  });
+}
+
+/** Decrypt a bundle file, keeping its encrypted form to reseal it under the same keys. */
+async function readBundleFile(
+  bundleFile: string,
+  secret: string | RecipientDecryptOptions
+): Promise<{ encrypted: string; bundle: BundleBackup }> {
+  const encrypted = (await fs.readFile(path.resolve(bundleFile), 'utf-8')).trim();
+  const bundle =
+    typeof secret === 'string'
+      ? await decryptBackup(encrypted, secret)
+      : await decryptBackup(encrypted, secret);
+  if (!isBundleBackup(bundle)) {
+    throw new Error(`${bundleFile} is a ${getBackupType(bundle)} backup, not a bundle.`);
+  }
+  return { encrypted, bundle };
+}
+
 // --- enc ---
 
-program
-  .command('enc <inputFile>')
-  .description('Encrypt a JSON backup file.')
+addKdfOptions(program.command('enc <inputFile>'))
+  .description('Encrypt a JSON backup file or a Yours Wallet backup ZIP.')
   .option('-p, --password <password>', 'Passphrase for encryption')
   .option('--touchid', 'Use Touch ID to retrieve or cache password')
   .option('-o, --output <outputFile>', 'Path to save the encrypted backup')
@@ -74,10 +359,32 @@ program
     (val) => Number.parseInt(val, 10),
     RECOMMENDED_PBKDF2_ITERATIONS
   )
+  .option('--public-metadata', 'Store label, type and createdAt readable without the passphrase')
+  .option(
+    '--recipient <pubkey>',
+    'Encrypt to a public key instead of a passphrase (repeatable)',
+    (val: string, prev: string[]) => [...prev, val],
+    []
+  )
+  .option('--no-validate', 'Skip WIF/xprv/mnemonic validation of the input')
+  .option('--testnet', 'Expect testnet WIF keys when validating')
+  .option(
+    '--stream',
+    'Encrypt the file as-is with streaming (chunked) encryption; automatic for non-JSON inputs above 64 MiB'
+  )
   .action(
     async (
       inputFile: string,
-      options: { password?: string; output?: string; iterations: number; touchid?: boolean }
+      options: KdfCliOptions & {
+        password?: string;
+        output?: string;
+        touchid?: boolean;
+        publicMetadata?: boolean;
+        recipient: string[];
+        validate: boolean;
+        testnet?: boolean;
+        stream?: boolean;
+      }
     ) => {
       let outputFile = options.output;
       if (!outputFile) {
@@ -86,33 +393,101 @@ program
         console.log(`Output file not specified, defaulting to: ${outputFile}`);
       }
 
+      const recipients = options.recipient;
+
       // For enc, the cache key is the OUTPUT .bep file
-      const password = await resolvePassword({
-        password: options.password,
-        touchid: options.touchid,
-        bepFilePath: outputFile,
-      });
+      const password =
+        recipients.length > 0
+          ? undefined
+          : await resolvePassword({
+              password: options.password,
+              touchid: options.touchid,
+              bepFilePath: outputFile,
+            });
 
-      console.log(
-        `Encrypting ${inputFile} to ${outputFile} using ${options.iterations} iterations...`
-      );
+      const encryptOptions: EncryptOptions = {
+        ...toEncryptOptions(options),
+        publicMetadata: options.publicMetadata,
+      };
+      const method =
+        password === undefined
+          ? `${recipients.length} recipient public key(s)`
+          : describeKdf(encryptOptions);
+      console.log(`Encrypting ${inputFile} to ${outputFile} using ${method}...`);
 
       try {
         const absoluteInputPath = path.resolve(inputFile);
-        const decryptedJsonString = await fs.readFile(absoluteInputPath, 'utf-8');
-        const decryptedPayload = JSON.parse(decryptedJsonString) as DecryptedBackup;
-
-        if (!decryptedPayload || typeof decryptedPayload !== 'object') {
-          throw new Error(
-            'Invalid input file content: Must be a valid JSON object representing a backup.'
+        const { size } = await fs.stat(absoluteInputPath);
+        const head = await readFileHead(absoluteInputPath, 64);
+        const isZip = isZipArchive(head);
+        const isJson = new TextDecoder().decode(head).trimStart().startsWith('{');
+        // Public metadata needs a parsed payload, so a large ZIP is only streamed without it
+        const autoStream =
+          password !== undefined &&
+          size > STREAM_THRESHOLD_BYTES &&
+          !isJson &&
+          !(isZip && options.publicMetadata);
+        if (options.stream || autoStream) {
+          if (password === undefined || options.publicMetadata) {
+            throw new Error(
+              'Streaming encryption supports neither --recipient nor --public-metadata.'
+            );
+          }
+          console.log('Using streaming encryption (the input is not parsed or validated).');
+          if (isZip) {
+            console.log('The ZIP is kept as-is; dec writes it back out as the original ZIP.');
+          }
+          const absoluteOutputPath = path.resolve(outputFile);
+          await fs.mkdir(path.dirname(absoluteOutputPath), { recursive: true });
+          const encrypted = await encryptBackupStream(
+            readFileStream(absoluteInputPath),
+            password,
+            toEncryptOptions(options)
           );
+          await writeFileStream(absoluteOutputPath, encrypted);
+          console.log(`File encrypted successfully and saved to ${absoluteOutputPath}`);
+          await maybeCachePassword({
+            password: options.password,
+            touchid: options.touchid,
+            bepFilePath: outputFile,
+          });
+          return;
         }
 
-        const encryptedBackupString = await encryptBackup(
-          decryptedPayload,
-          password,
-          options.iterations
-        );
+        const input = new Uint8Array(await fs.readFile(absoluteInputPath));
+        let decryptedPayload: DecryptedBackup;
+        if (isZipArchive(input)) {
+          console.log('ZIP input detected, parsing it as a Yours Wallet backup...');
+          const zipBackup = parseYoursWalletZip(input);
+          printZipWarnings(zipBackup);
+          decryptedPayload = zipBackup;
+        } else {
+          decryptedPayload = JSON.parse(new TextDecoder().decode(input)) as DecryptedBackup;
+          if (!decryptedPayload || typeof decryptedPayload !== 'object') {
+            throw new Error(
+              'Invalid input file content: Must be a valid JSON object representing a backup.'
+            );
+          }
+        }
+
+        if (options.validate) {
+          const keyErrors = validateBackupKeys(decryptedPayload, {
+            network: options.testnet ? 'testnet' : 'mainnet',
+          });
+          if (keyErrors.length > 0) {
+            console.error('Key validation failed (use --no-validate to skip):');
+            for (const keyError of keyErrors) console.error(`  - ${keyError.message}`);
+            process.exit(1);
+          }
+        }
+
+        const encryptedBackupString =
+          password === undefined
+            ? await encryptBackup(decryptedPayload, {
+                recipients,
+                publicMetadata: options.publicMetadata,
+              })
+            : await encryptBackup(decryptedPayload, password, encryptOptions);
 
         const absoluteOutputPath = path.resolve(outputFile);
         const outputDir = path.dirname(absoluteOutputPath);
@@ -144,25 +519,75 @@ program
   .description('Decrypt an encrypted backup file.')
   .option('-p, --password <password>', 'Passphrase for decryption')
   .option('--touchid', 'Use Touch ID to retrieve or cache password')
+  .option(
+    '--identity-key <keyOrFile>',
+    'Private key (WIF or hex), or a file containing it, for recipient-encrypted backups'
+  )
   .option(
     '-o, --output <outputFile>',
-    'Path to save the decrypted JSON. If omitted, prints to console.'
+    'Path to save the decrypted JSON (or ZIP). If omitted, prints to console.'
   )
+  .option('--format <format>', 'Output format: json, or zip to rebuild a Yours Wallet ZIP', 'json')
   .action(
     async (
       inputFile: string,
-      options: { password?: string; output?: string; touchid?: boolean }
+      options: {
+        password?: string;
+        output?: string;
+        touchid?: boolean;
+        identityKey?: string;
+        format: string;
+      },
+      command: Command
     ) => {
+      if (options.format !== 'json' && options.format !== 'zip') {
+        console.error(`Unknown format "${options.format}". Use json or zip.`);
+        process.exit(1);
+      }
+      if (options.format === 'zip' && !options.output) {
+        console.error('--format zip writes a binary file; specify it with -o.');
+        process.exit(1);
+      }
+
       // For dec, the cache key is the INPUT .bep file
-      const password = await resolvePassword({
-        password: options.password,
-        touchid: options.touchid,
-        bepFilePath: inputFile,
-      });
+      const password = options.identityKey
+        ? undefined
+        : await resolvePassword({
+            password: options.password,
+            touchid: options.touchid,
+            bepFilePath: inputFile,
+          });
 
       console.log(`Attempting to decrypt file: ${inputFile}`);
       try {
         const absoluteInputPath = path.resolve(inputFile);
+        if (password !== undefined && (await isStreamedBackup(absoluteInputPath))) {
+          if (options.format === 'json' && command.getOptionValueSource('format') === 'cli') {
+            throw new Error(
+              '--format json does not apply to streamed backups: they decrypt to the original file bytes.'
+            );
+          }
+          console.log('Streamed backup detected, decrypting...');
+          let decrypted = await decryptBackupStream(readFileStream(absoluteInputPath), password);
+          if (options.format === 'zip') decrypted = decrypted.pipeThrough(requireZipStream());
+          await maybeCachePassword({
+            password: options.password,
+            touchid: options.touchid,
+            bepFilePath: inputFile,
+          });
+          if (options.output) {
+            const absoluteOutputPath = path.resolve(options.output);
+            await fs.mkdir(path.dirname(absoluteOutputPath), { recursive: true });
+            await writeFileStream(absoluteOutputPath, decrypted);
+            console.log(
+              `\nDecryption successful! Decrypted payload saved to: ${absoluteOutputPath}`
+            );
+          } else {
+            console.log('\nDecrypted Payload:');
+            await writeFileStream(undefined, decrypted);
+          }
+          return;
+        }
         const encryptedString = await fs.readFile(absoluteInputPath, 'utf-8');
 
         if (!encryptedString.trim()) {
@@ -171,7 +596,12 @@ program
         }
 
         console.log('File content read, attempting decryption...');
-        const decryptedPayload = await decryptBackup(encryptedString.trim(), password);
+        const decryptedPayload =
+          password === undefined
+            ? await decryptBackup(encryptedString.trim(), {
+                privateKey: await resolveIdentityKey(options.identityKey as string),
+              })
+            : await decryptBackup(encryptedString.trim(), password);
 
         await maybeCachePassword({
           password: options.password,
@@ -179,16 +609,24 @@ program
           bepFilePath: inputFile,
         });
 
-        if (options.output) {
+        if (options.format === 'zip') {
+          if (!isYoursWalletZipBackup(decryptedPayload)) {
+            throw new Error('--format zip requires a Yours Wallet ZIP backup.');
+          }
+          const absoluteOutputPath = path.resolve(options.output as string);
+          await fs.mkdir(path.dirname(absoluteOutputPath), { recursive: true });
+          await fs.writeFile(absoluteOutputPath, buildYoursWalletZip(decryptedPayload));
+          console.log(`\nDecryption successful! Yours Wallet ZIP saved to: ${absoluteOutputPath}`);
+        } else if (options.output) {
           const absoluteOutputPath = path.resolve(options.output);
           const outputDir = path.dirname(absoluteOutputPath);
           await fs.mkdir(outputDir, { recursive: true });
-          await fs.writeFile(absoluteOutputPath, JSON.stringify(decryptedPayload, null, 2), 'utf8');
+          await fs.writeFile(absoluteOutputPath, formatPayload(decryptedPayload), 'utf8');
           console.log(`\nDecryption successful! Decrypted payload saved to: ${absoluteOutputPath}`);
         } else {
           console.log('\nDecryption successful!\n');
           console.log('Decrypted Payload:');
-          console.log(JSON.stringify(decryptedPayload, null, 2));
+          console.log(formatPayload(decryptedPayload));
         }
       } catch (error) {
         console.error('\nDecryption failed:');
@@ -204,16 +642,21 @@ program
 
 // --- upg ---
 
-program
-  .command('upg <inputFile>')
-  .description('Upgrade an encrypted backup file to the recommended PBKDF2 iterations.')
+addKdfOptions(program.command('upg <inputFile>'))
+  .description(
+    'Upgrade an encrypted backup file to the recommended PBKDF2 iterations or to Argon2id.'
+  )
   .option('-p, --password <password>', 'Passphrase for decryption and re-encryption')
   .option('--touchid', 'Use Touch ID to retrieve or cache password')
   .option('-o, --output <outputFile>', 'Path to save the upgraded encrypted file')
   .action(
     async (
       inputFile: string,
-      options: { password?: string; output?: string; touchid?: boolean }
+      options: Omit<KdfCliOptions, 'iterations'> & {
+        password?: string;
+        output?: string;
+        touchid?: boolean;
+      }
     ) => {
       const password = await resolvePassword({
         password: options.password,
@@ -228,15 +671,29 @@ program
         const absoluteInputPath = path.resolve(inputFile);
         const encryptedBackup = await fs.readFile(absoluteInputPath, 'utf-8');
 
-        console.log('Decrypting file...');
-        const decryptedPayload = await decryptBackup(encryptedBackup, password);
-        console.log('File decrypted successfully.');
+        const { kdf } = inspectBackup(encryptedBackup);
+        if (kdf?.id === 'ecies-recipients') {
+          throw new Error(
+            'The backup is encrypted to recipient public keys and has no passphrase KDF to upgrade.'
+          );
+        }
+        if (kdf?.id === 'keyslots' && kdf.slots.length > 1) {
+          throw new Error(
+            `The backup has ${kdf.slots.length} keyslots and upgrading would keep only this passphrase's. Use "bbackup slot add" with the new KDF options for each passphrase, then "bbackup slot remove" for the old slots.`
+          );
+        }
 
-        console.log(`Re-encrypting with ${RECOMMENDED_PBKDF2_ITERATIONS} iterations...`);
-        const upgradedEncryptedBackup = await encryptBackup(
-          decryptedPayload,
+        // Re-encrypt under the same passphrase, keeping the metadata section and keyslot layout
+        const encryptOptions = toEncryptOptions({
+          ...options,
+          iterations: RECOMMENDED_PBKDF2_ITERATIONS,
+        });
+        console.log(`Re-encrypting with ${describeKdf(encryptOptions)}...`);
+        const upgradedEncryptedBackup = await rekeyBackup(
+          encryptedBackup,
+          password,
           password,
-          RECOMMENDED_PBKDF2_ITERATIONS
+          encryptOptions
         );
         console.log('File re-encrypted successfully.');
 
@@ -253,9 +710,9 @@ program
         await fs.mkdir(outputDir, { recursive: true });
 
         console.log(`Writing upgraded file to: ${absoluteOutputPath}`);
-        await fs.writeFile(absoluteOutputPath, upgradedEncryptedBackup, 'utf-8');
+        await writeFileAtomic(absoluteOutputPath, upgradedEncryptedBackup);
         console.log(
-          `File ${inputFile} upgraded and saved as ${absoluteOutputPath} with ${RECOMMENDED_PBKDF2_ITERATIONS} PBKDF2 iterations.`
+          `File ${inputFile} upgraded and saved as ${absoluteOutputPath} with ${describeKdf(encryptOptions)}.`
         );
 
         await maybeCachePassword({
@@ -275,6 +732,1006 @@ program
     }
   );
 
+// --- rekey ---
+
+addKdfOptions(program.command('rekey <inputFile>'))
+  .description(
+    'Change the passphrase (and optionally the KDF) of an encrypted backup, keeping its payload and metadata.'
+  )
+  .option('-p, --password <password>', 'Current passphrase')
+  .option('--touchid', 'Use Touch ID for the current password and cache the new one')
+  .requiredOption('-n, --new-password <password>', 'New passphrase')
+  .option(
+    '-t, --iterations <count>',
+    'Number of PBKDF2 iterations',
+    (val) => Number.parseInt(val, 10),
+    RECOMMENDED_PBKDF2_ITERATIONS
+  )
+  .option('-o, --output <outputFile>', 'Path to save the rekeyed backup (defaults to in place)')
+  .option(
+    '--drop-keyslots',
+    'Rekey a backup with several keyslots, keeping only the new passphrase'
+  )
+  .action(
+    async (
+      inputFile: string,
+      options: KdfCliOptions & {
+        password?: string;
+        touchid?: boolean;
+        newPassword: string;
+        output?: string;
+        dropKeyslots?: boolean;
+      },
+      command: Command
+    ) => {
+      const password = await resolvePassword({
+        password: options.password,
+        touchid: options.touchid,
+        bepFilePath: inputFile,
+      });
+      // Keep the backup's current KDF unless a KDF flag was given
+      const kdfFlags = ['kdf', 'iterations', 'argon2Memory', 'argon2Time', 'argon2Parallelism'];
+      const encryptOptions = kdfFlags.some((flag) => command.getOptionValueSource(flag) === 'cli')
+        ? toEncryptOptions(options)
+        : undefined;
+      const inputPath = path.resolve(inputFile);
+      const outputPath = path.resolve(options.output ?? inputFile);
+
+      try {
+        const encryptedString = await fs.readFile(inputPath, 'utf-8');
+        console.log(
+          `Re-encrypting ${inputFile} with ${encryptOptions ? describeKdf(encryptOptions) : 'its current KDF'}...`
+        );
+        const rekeyed = await rekeyBackup(encryptedString.trim(), password, options.newPassword, {
+          ...encryptOptions,
+          dropKeyslots: options.dropKeyslots,
+        });
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await writeFileAtomic(outputPath, rekeyed);
+        console.log(`Passphrase changed. Saved to ${outputPath}`);
+
+        if (options.touchid) {
+          const { isTouchIDAvailable, cachePassword, rotateCachedPassword } = await import(
+            '../src/touchid'
+          );
+          if (isTouchIDAvailable()) {
+            if (outputPath === inputPath) {
+              await rotateCachedPassword(inputFile, options.newPassword);
+            } else {
+              // The input keeps its old passphrase (and cache entry); cache the new file's
+              await cachePassword(outputPath, options.newPassword);
+            }
+            console.log('Touch ID cache updated with the new password.');
+          }
+        }
+      } catch (error) {
+        console.error('Rekey failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- split ---
+
+program
+  .command('split <inputFile>')
+  .description('Split a JSON or encrypted .bep backup into M-of-N Shamir share files.')
+  .requiredOption('-m, --threshold <count>', 'Shares required to recover the backup', (val) =>
+    Number.parseInt(val, 10)
+  )
+  .requiredOption('-n, --shares <count>', 'Number of shares to create', (val) =>
+    Number.parseInt(val, 10)
+  )
+  .option('-p, --password <password>', 'Passphrase, if the input is an encrypted .bep file')
+  .option('--touchid', 'Use Touch ID to retrieve the password of an encrypted input')
+  .option(
+    '-d, --output-dir <dir>',
+    'Directory for the share files (defaults to the input directory)'
+  )
+  .action(
+    async (
+      inputFile: string,
+      options: {
+        threshold: number;
+        shares: number;
+        password?: string;
+        touchid?: boolean;
+        outputDir?: string;
+      }
+    ) => {
+      try {
+        const absoluteInputPath = path.resolve(inputFile);
+        const payload = await readBackupFile(inputFile, options);
+
+        const shares = splitBackup(payload, {
+          threshold: options.threshold,
+          shares: options.shares,
+        });
+
+        const inputPath = path.parse(absoluteInputPath);
+        const outputDir = path.resolve(options.outputDir ?? inputPath.dir);
+        await fs.mkdir(outputDir, { recursive: true });
+        for (const [i, share] of shares.entries()) {
+          const sharePath = path.join(
+            outputDir,
+            `${inputPath.name}_share-${i + 1}-of-${shares.length}.bbs`
+          );
+          await fs.writeFile(sharePath, share, 'utf-8');
+          console.log(`Wrote share ${i + 1}/${shares.length}: ${sharePath}`);
+        }
+        console.log(
+          `\nAny ${options.threshold} of these ${shares.length} shares recover the backup. Store them separately.`
+        );
+      } catch (error) {
+        console.error('Split failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- combine ---
+
+program
+  .command('combine <shareFiles...>')
+  .description('Recover a backup from Shamir share files.')
+  .option(
+    '-o, --output <outputFile>',
+    'Path to save the recovered JSON. If omitted, prints to console.'
+  )
+  .action(async (shareFiles: string[], options: { output?: string }) => {
+    try {
+      const shares = await Promise.all(
+        shareFiles.map((file) => fs.readFile(path.resolve(file), 'utf-8'))
+      );
+      const payload = combineShares(shares.map((share) => share.trim()));
+
+      if (options.output) {
+        const absoluteOutputPath = path.resolve(options.output);
+        await fs.mkdir(path.dirname(absoluteOutputPath), { recursive: true });
+        await fs.writeFile(absoluteOutputPath, formatPayload(payload), 'utf8');
+        console.log(`Backup recovered and saved to: ${absoluteOutputPath}`);
+      } else {
+        console.log('Recovered Payload:');
+        console.log(formatPayload(payload));
+      }
+    } catch (error) {
+      console.error('Combine failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// --- info ---
+
+program
+  .command('info <inputFile>')
+  .description(
+    'Show the format, KDF and public metadata of an encrypted backup without decrypting it.'
+  )
+  .action(async (inputFile: string) => {
+    try {
+      const encryptedString = await fs.readFile(path.resolve(inputFile), 'utf-8');
+      const info = inspectBackup(encryptedString.trim());
+
+      console.log(`File:     ${path.resolve(inputFile)}`);
+      if (info.format === 'legacy') {
+        console.log('Format:   legacy (headerless, no metadata)');
+        return;
+      }
+      console.log(`Format:   envelope v${info.version}`);
+      console.log(`Cipher:   ${info.cipher}`);
+      if (info.kdf?.id === 'ecies-recipients') {
+        console.log(`Key:      ${info.kdf.recipients.length} recipient public key(s)`);
+        for (const recipient of info.kdf.recipients) console.log(`          ${recipient}`);
+      } else if (info.kdf?.id === 'keyslots') {
+        console.log(`Key:      ${info.kdf.slots.length} passphrase keyslot(s)`);
+        for (const [i, entry] of info.kdf.slots.entries()) {
+          console.log(`          [${i}] ${formatKdfInfo(entry)}`);
+        }
+      } else if (info.kdf) {
+        console.log(`KDF:      ${formatKdfInfo(info.kdf)}`);
+      }
+      if (!info.metadata) {
+        console.log('Metadata: none');
+        return;
+      }
+      console.log(`Type:     ${info.metadata.type ?? '-'}`);
+      console.log(`Label:    ${info.metadata.label ?? '-'}`);
+      console.log(`Created:  ${info.metadata.createdAt ?? '-'}`);
+    } catch (error) {
+      console.error('Failed to read backup info:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// --- slot ---
+
+const slot = program
+  .command('slot')
+  .description('Manage passphrase keyslots (several passphrases for one backup).');
+
+slot
+  .command('list <inputFile>')
+  .description('List the keyslots of an encrypted backup without decrypting it.')
+  .action(async (inputFile: string) => {
+    try {
+      const encryptedString = await fs.readFile(path.resolve(inputFile), 'utf-8');
+      const { kdf } = inspectBackup(encryptedString.trim());
+      if (kdf?.id !== 'keyslots') {
+        console.log(
+          'This backup has no keyslots (single passphrase). Use `slot add` to convert it.'
+        );
+        return;
+      }
+      for (const [i, entry] of kdf.slots.entries()) console.log(`[${i}] ${formatKdfInfo(entry)}`);
+    } catch (error) {
+      console.error('Failed to list keyslots:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+addKdfOptions(slot.command('add <inputFile>'))
+  .description(
+    'Add a passphrase keyslot. Backups without keyslots are converted (re-encrypted once).'
+  )
+  .option('-p, --password <password>', 'An existing passphrase of the backup')
+  .option('--touchid', 'Use Touch ID to retrieve the existing password')
+  .requiredOption('-n, --new-password <password>', 'Passphrase for the new keyslot')
+  .option(
+    '-t, --iterations <count>',
+    'PBKDF2 iterations for the new keyslot',
+    (val) => Number.parseInt(val, 10),
+    RECOMMENDED_PBKDF2_ITERATIONS
+  )
+  .option('-o, --output <outputFile>', 'Path to save the updated backup (defaults to in place)')
+  .action(
+    async (
+      inputFile: string,
+      options: KdfCliOptions & {
+        password?: string;
+        touchid?: boolean;
+        newPassword: string;
+        output?: string;
+      }
+    ) => {
+      const password = await resolvePassword({
+        password: options.password,
+        touchid: options.touchid,
+        bepFilePath: inputFile,
+      });
+      const encryptOptions = toEncryptOptions(options);
+      const outputPath = path.resolve(options.output ?? inputFile);
+      try {
+        const encryptedString = await fs.readFile(path.resolve(inputFile), 'utf-8');
+        console.log(`Adding keyslot using ${describeKdf(encryptOptions)}...`);
+        const updated = await addKeyslot(
+          encryptedString.trim(),
+          password,
+          options.newPassword,
+          encryptOptions
+        );
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await writeFileAtomic(outputPath, updated);
+        const { kdf } = inspectBackup(updated);
+        const count = kdf?.id === 'keyslots' ? kdf.slots.length : 1;
+        console.log(`Keyslot added (${count} total). Saved to ${outputPath}`);
+      } catch (error) {
+        console.error('Failed to add keyslot:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+slot
+  .command('remove <inputFile> <index>')
+  .description('Revoke a keyslot by index (see `slot list`) without re-encrypting the payload.')
+  .option('-p, --password <password>', 'A passphrase that opens one of the keyslots')
+  .option('--touchid', 'Use Touch ID to retrieve the password')
+  .option('-o, --output <outputFile>', 'Path to save the updated backup (defaults to in place)')
+  .action(
+    async (
+      inputFile: string,
+      index: string,
+      options: { password?: string; touchid?: boolean; output?: string }
+    ) => {
+      const password = await resolvePassword({
+        password: options.password,
+        touchid: options.touchid,
+        bepFilePath: inputFile,
+      });
+      const outputPath = path.resolve(options.output ?? inputFile);
+      try {
+        const encryptedString = await fs.readFile(path.resolve(inputFile), 'utf-8');
+        const updated = await removeKeyslot(
+          encryptedString.trim(),
+          password,
+          Number.parseInt(index, 10)
+        );
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await writeFileAtomic(outputPath, updated);
+        console.log(`Keyslot ${index} removed. Saved to ${outputPath}`);
+      } catch (error) {
+        console.error('Failed to remove keyslot:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- yours ---
+
+const yours = program.command('yours').description('Work with Yours Wallet backup ZIPs.');
+
+addKdfOptions(yours.command('extract <zipFile>'))
+  .description('Extract every account of a Yours Wallet backup ZIP into its own backup file.')
+  .requiredOption('-w, --wallet-password <password>', 'The Yours Wallet password')
+  .option('-p, --password <password>', 'Encrypt each account to a .bep file with this passphrase')
+  .option(
+    '-t, --iterations <count>',
+    'Number of PBKDF2 iterations',
+    (val) => Number.parseInt(val, 10),
+    RECOMMENDED_PBKDF2_ITERATIONS
+  )
+  .option(
+    '-d, --output-dir <dir>',
+    'Directory for the account files (defaults to the ZIP directory)'
+  )
+  .action(
+    async (
+      zipFile: string,
+      options: KdfCliOptions & { walletPassword: string; password?: string; outputDir?: string }
+    ) => {
+      const encryptOptions = options.password ? toEncryptOptions(options) : undefined;
+      try {
+        const absoluteZipPath = path.resolve(zipFile);
+        const zip = new Uint8Array(await fs.readFile(absoluteZipPath));
+        const zipBackup = parseYoursWalletZip(zip);
+        printZipWarnings(zipBackup);
+        const accounts = await extractYoursWalletAccounts(zipBackup, options.walletPassword);
+
+        const zipPath = path.parse(absoluteZipPath);
+        const outputDir = path.resolve(options.outputDir ?? zipPath.dir);
+        await fs.mkdir(outputDir, { recursive: true });
+        if (encryptOptions) console.log(`Encrypting with ${describeKdf(encryptOptions)}...`);
+        for (const [i, account] of accounts.entries()) {
+          const id = (account.identityAddress ?? `account-${i + 1}`).replace(/[^\w.-]/g, '_');
+          const extension = encryptOptions ? 'bep' : 'json';
+          const accountPath = path.join(outputDir, `${zipPath.name}_${id}.${extension}`);
+          const content =
+            options.password && encryptOptions
+              ? await encryptBackup(account.backup, options.password, encryptOptions)
+              : JSON.stringify(account.backup, null, 2);
+          await fs.writeFile(accountPath, content, 'utf-8');
+          console.log(`Wrote ${account.name ?? id}: ${accountPath}`);
+        }
+        console.log(`\nExtracted ${accounts.length} account(s).`);
+      } catch (error) {
+        console.error('Extract failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- import ---
+
+addKdfOptions(program.command('import <inputFile>'))
+  .description('Convert a wallet export into backup files (one per key set).')
+  .requiredOption('--from <format>', `Export format: ${IMPORT_FORMATS.join(', ')}`)
+  .option('-p, --password <password>', 'Encrypt each backup to a .bep file with this passphrase')
+  .option(
+    '-t, --iterations <count>',
+    'Number of PBKDF2 iterations',
+    (val) => Number.parseInt(val, 10),
+    RECOMMENDED_PBKDF2_ITERATIONS
+  )
+  .option('-l, --label <label>', 'Label for backups the export does not name')
+  .option('--testnet', 'Expect (and derive) testnet WIF keys')
+  .option(
+    '-d, --output-dir <dir>',
+    'Directory for the backup files (defaults to the input directory)'
+  )
+  .action(
+    async (
+      inputFile: string,
+      options: KdfCliOptions & {
+        from: string;
+        password?: string;
+        label?: string;
+        testnet?: boolean;
+        outputDir?: string;
+      }
+    ) => {
+      if (!IMPORT_FORMATS.includes(options.from as ImportFormat)) {
+        console.error(`Unknown format "${options.from}". Use ${IMPORT_FORMATS.join(', ')}.`);
+        process.exit(1);
+      }
+      const encryptOptions = options.password ? toEncryptOptions(options) : undefined;
+      try {
+        const absoluteInputPath = path.resolve(inputFile);
+        const backups = importBackup(await fs.readFile(absoluteInputPath, 'utf-8'), {
+          from: options.from as ImportFormat,
+          network: options.testnet ? 'testnet' : 'mainnet',
+          label: options.label,
+        });
+
+        const inputPath = path.parse(absoluteInputPath);
+        const outputDir = path.resolve(options.outputDir ?? inputPath.dir);
+        await fs.mkdir(outputDir, { recursive: true });
+        if (encryptOptions) console.log(`Encrypting with ${describeKdf(encryptOptions)}...`);
+        for (const [i, backup] of backups.entries()) {
+          const suffix = backups.length > 1 ? `_${i + 1}` : '';
+          const extension = encryptOptions ? 'bep' : 'json';
+          const backupPath = path.join(
+            outputDir,
+            `${inputPath.name}_imported${suffix}.${extension}`
+          );
+          const content =
+            options.password && encryptOptions
+              ? await encryptBackup(backup, options.password, encryptOptions)
+              : JSON.stringify(backup, null, 2);
+          await fs.writeFile(backupPath, content, 'utf-8');
+          console.log(`Wrote ${getBackupType(backup)} backup: ${backupPath}`);
+        }
+        console.log(`\nImported ${backups.length} backup(s).`);
+      } catch (error) {
+        console.error('Import failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- export ---
+
+program
+  .command('export <inputFile>')
+  .description("Write a JSON or encrypted .bep backup in another wallet's import format.")
+  .requiredOption('--to <format>', `Target format: ${EXPORT_FORMATS.join(', ')}`)
+  .option('-p, --password <password>', 'Passphrase, if the input is an encrypted .bep file')
+  .option('--touchid', 'Use Touch ID to retrieve the password of an encrypted input')
+  .option('--testnet', 'Encode keys derived from a mnemonic or xprv as testnet WIFs')
+  .option('-o, --output <outputFile>', 'Path to save the export. If omitted, prints to console.')
+  .action(
+    async (
+      inputFile: string,
+      options: {
+        to: string;
+        password?: string;
+        touchid?: boolean;
+        testnet?: boolean;
+        output?: string;
+      }
+    ) => {
+      if (!EXPORT_FORMATS.includes(options.to as ExportFormat)) {
+        console.error(`Unknown format "${options.to}". Use ${EXPORT_FORMATS.join(', ')}.`);
+        process.exit(1);
+      }
+      try {
+        const payload = await readBackupFile(inputFile, options);
+        const exported = exportBackup(payload, {
+          to: options.to as ExportFormat,
+          network: options.testnet ? 'testnet' : 'mainnet',
+        });
+        if (options.output) {
+          const absoluteOutputPath = path.resolve(options.output);
+          await fs.mkdir(path.dirname(absoluteOutputPath), { recursive: true });
+          await fs.writeFile(absoluteOutputPath, exported, 'utf-8');
+          console.log(`Exported ${options.to} format to: ${absoluteOutputPath}`);
+        } else {
+          process.stdout.write(exported);
+        }
+      } catch (error) {
+        console.error('Export failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- derive ---
+
+program
+  .command('derive <inputFile>')
+  .description(
+    'Derive a child key (WifBackup) or a BAP identity (BapAccountBackup) from a master backup.'
+  )
+  .option('--path <path>', "BIP32 path from the xprv root, e.g. \"m/44'/236'/0'/0/0\" (legacy)")
+  .option('--invoice <invoiceNumber>', 'BRC-42 invoice number (Type 42)')
+  .option('--counterparty <pubkey>', 'BRC-42 counterparty: self (default), anyone or a public key')
+  .option('--identity <index>', 'Derive the BAP identity at this index (from 0)', (val) =>
+    Number.parseInt(val, 10)
+  )
+  .option('-p, --password <password>', 'Passphrase, if the input is an encrypted .bep file')
+  .option('--touchid', 'Use Touch ID to retrieve the password of an encrypted input')
+  .option('--testnet', 'Encode the derived key as a testnet WIF')
+  .option(
+    '-o, --output <outputFile>',
+    'Path to save the JSON backup. If omitted, prints to console.'
+  )
+  .action(
+    async (
+      inputFile: string,
+      options: {
+        path?: string;
+        invoice?: string;
+        counterparty?: string;
+        identity?: number;
+        password?: string;
+        touchid?: boolean;
+        testnet?: boolean;
+        output?: string;
+      }
+    ) => {
+      if ((options.identity !== undefined) === (options.path !== undefined || !!options.invoice)) {
+        console.error('Pass either --identity <index>, or --path / --invoice.');
+        process.exit(1);
+      }
+      try {
+        const payload = await readBackupFile(inputFile, options);
+        const network = options.testnet ? 'testnet' : 'mainnet';
+        const derived =
+          options.identity !== undefined
+            ? deriveAccountBackup(payload, options.identity, { network })
+            : deriveFromBackup(payload, {
+                path: options.path,
+                invoiceNumber: options.invoice,
+                counterparty: options.counterparty,
+                network,
+              });
+        const json = JSON.stringify(derived, null, 2);
+        if (options.output) {
+          const absoluteOutputPath = path.resolve(options.output);
+          await fs.mkdir(path.dirname(absoluteOutputPath), { recursive: true });
+          await fs.writeFile(absoluteOutputPath, json, 'utf-8');
+          console.log(`Wrote ${getBackupType(derived)} backup to: ${absoluteOutputPath}`);
+        } else {
+          console.log(json);
+        }
+      } catch (error) {
+        console.error('Derivation failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- extract-account ---
+
+addKdfOptions(program.command('extract-account <inputFile> <identityKey>'))
+  .description(
+    'Write an encrypted BapAccountBackup for one BAP identity of a master backup (see ids list).'
+  )
+  .option('-p, --password <password>', 'Passphrase, if the input is an encrypted .bep file')
+  .option('--touchid', 'Use Touch ID to retrieve the password of an encrypted input')
+  .requiredOption('-n, --new-password <password>', 'Passphrase for the account backup')
+  .option(
+    '-t, --iterations <count>',
+    'Number of PBKDF2 iterations',
+    (val) => Number.parseInt(val, 10),
+    RECOMMENDED_PBKDF2_ITERATIONS
+  )
+  .option('--testnet', 'Encode the account key as a testnet WIF')
+  .option('-o, --output <outputFile>', 'Path to save the account backup')
+  .action(
+    async (
+      inputFile: string,
+      identityKey: string,
+      options: KdfCliOptions & {
+        password?: string;
+        touchid?: boolean;
+        newPassword: string;
+        testnet?: boolean;
+        output?: string;
+      }
+    ) => {
+      const encryptOptions = toEncryptOptions(options);
+      try {
+        const payload = await readBackupFile(inputFile, options);
+        const account = extractAccountBackup(payload, identityKey, {
+          network: options.testnet ? 'testnet' : 'mainnet',
+        });
+        const inputPath = path.parse(path.resolve(inputFile));
+        const outputPath = path.resolve(
+          options.output ?? path.join(inputPath.dir, `${inputPath.name}_${identityKey}.bep`)
+        );
+        console.log(`Encrypting with ${describeKdf(encryptOptions)}...`);
+        const encrypted = await encryptBackup(account, options.newPassword, encryptOptions);
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, encrypted, 'utf-8');
+        console.log(`Account backup for ${account.label} saved to: ${outputPath}`);
+      } catch (error) {
+        console.error('Extraction failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- migrate ---
+
+addKdfOptions(program.command('migrate <inputFile>'))
+  .description('Migrate a legacy (xprv) master backup to an encrypted Type 42 (rootPk) backup.')
+  .option('-p, --password <password>', 'Passphrase of an encrypted input, and of the output')
+  .option('--touchid', 'Use Touch ID to retrieve the password of an encrypted input')
+  .option('-n, --new-password <password>', 'Passphrase for the migrated backup (defaults to -p)')
+  .option(
+    '-t, --iterations <count>',
+    'Number of PBKDF2 iterations',
+    (val) => Number.parseInt(val, 10),
+    RECOMMENDED_PBKDF2_ITERATIONS
+  )
+  .option('-o, --output <outputFile>', 'Path to save the migrated backup')
+  .option('--report <reportFile>', 'Also save the verification report as JSON')
+  .option(
+    '--allow-identity-loss',
+    'Write the backup even if identities do not derive from the Type 42 key'
+  )
+  .action(
+    async (
+      inputFile: string,
+      options: KdfCliOptions & {
+        password?: string;
+        touchid?: boolean;
+        newPassword?: string;
+        output?: string;
+        report?: string;
+        allowIdentityLoss?: boolean;
+      }
+    ) => {
+      const encryptOptions = toEncryptOptions(options);
+      try {
+        const payload = await readBackupFile(inputFile, options);
+        const newPassword = options.newPassword ?? options.password;
+        if (!newPassword) {
+          console.error('Pass -n/--new-password (or -p) to encrypt the migrated backup.');
+          process.exit(1);
+        }
+        const { backup, report } = migrateLegacyToType42(payload);
+
+        console.log('BAP identity keys:');
+        for (const [i, before] of report.identityKeysBefore.entries()) {
+          const after = report.identityKeysAfter[i] ?? '-';
+          console.log(`  ${before} -> ${after}${before === after ? '' : '  MISMATCH'}`);
+        }
+        if (!report.identityKeysMatch) {
+          const count = report.mismatchedIdentityKeys.length;
+          if (!options.allowIdentityLoss) {
+            console.error(
+              `${count} identit${count === 1 ? 'y does' : 'ies do'} not derive from the Type 42 key; no backup was written.`
+            );
+            console.error(
+              'Keep the legacy backup, or pass --allow-identity-loss to migrate anyway.'
+            );
+            process.exit(1);
+          }
+          for (const identityKey of report.mismatchedIdentityKeys) {
+            console.warn(
+              `Warning: identity ${identityKey} is lost in the Type 42 backup; keep the legacy backup to sign for it.`
+            );
+          }
+        }
+
+        const inputPath = path.parse(path.resolve(inputFile));
+        const outputPath = path.resolve(
+          options.output ?? path.join(inputPath.dir, `${inputPath.name}_type42.bep`)
+        );
+        console.log(`Encrypting with ${describeKdf(encryptOptions)}...`);
+        const encrypted = await encryptBackup(backup, newPassword, encryptOptions);
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, encrypted, 'utf-8');
+        console.log(`Type 42 backup saved to: ${outputPath}`);
+        if (options.report) {
+          const reportPath = path.resolve(options.report);
+          await fs.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+          console.log(`Verification report saved to: ${reportPath}`);
+        }
+      } catch (error) {
+        console.error('Migration failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- ids ---
+
+const ids = program
+  .command('ids')
+  .description("Inspect the BAP identities in a master backup's ids.");
+
+ids
+  .command('list <inputFile>')
+  .description('List the BAP identities stored in a master backup.')
+  .option('-p, --password <password>', 'Passphrase, if the input is an encrypted .bep file')
+  .option('--touchid', 'Use Touch ID to retrieve the password of an encrypted input')
+  .option('--json', 'Print the identities as JSON')
+  .action(
+    async (
+      inputFile: string,
+      options: { password?: string; touchid?: boolean; json?: boolean }
+    ) => {
+      try {
+        const identities = listBapIdentities(await readBackupFile(inputFile, options));
+        if (options.json) {
+          console.log(JSON.stringify(identities, null, 2));
+          return;
+        }
+        console.log(`${identities.length} BAP identit${identities.length === 1 ? 'y' : 'ies'}`);
+        for (const [i, identity] of identities.entries()) {
+          console.log(`\n[${i}] ${identity.name ?? '(unnamed)'}`);
+          console.log(`  Identity key: ${identity.identityKey}`);
+          console.log(`  Root address: ${identity.rootAddress}`);
+          console.log(`  Root path:    ${identity.rootPath}`);
+          console.log(`  Current path: ${identity.currentPath}`);
+        }
+      } catch (error) {
+        console.error('Failed to list identities:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- show ---
+
+program
+  .command('show <inputFile>')
+  .description(
+    'Show the public keys, addresses and BAP identity keys of a backup without printing secrets.'
+  )
+  .option('-p, --password <password>', 'Passphrase, if the input is an encrypted .bep file')
+  .option('--touchid', 'Use Touch ID to retrieve the password of an encrypted input')
+  .option('--json', 'Print the description as JSON')
+  .action(
+    async (
+      inputFile: string,
+      options: { password?: string; touchid?: boolean; json?: boolean }
+    ) => {
+      try {
+        const payload = await readBackupFile(inputFile, options);
+        const description = describeBackup(payload);
+        if (options.json) {
+          console.log(JSON.stringify(description, null, 2));
+          return;
+        }
+        console.log(`Type:     ${description.type}`);
+        console.log(`Label:    ${description.label ?? '-'}`);
+        console.log(`Created:  ${description.createdAt ?? '-'}`);
+        if (description.xpub) console.log(`xpub:     ${description.xpub}`);
+        for (const key of description.keys) {
+          console.log(`\n${key.field}${key.path ? ` (${key.path})` : ''}`);
+          console.log(`  Public key: ${key.publicKey}`);
+          console.log(`  Mainnet:    ${key.addresses.mainnet}`);
+          console.log(`  Testnet:    ${key.addresses.testnet}`);
+        }
+        if (description.identityKeys) {
+          console.log(`\nBAP identity keys (${description.identityKeys.length}):`);
+          for (const identityKey of description.identityKeys) console.log(`  ${identityKey}`);
+        } else if (isMasterBackup(payload)) {
+          console.log('\nBAP identity keys: ids could not be decrypted with the master key');
+        }
+      } catch (error) {
+        console.error('Failed to show backup:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+// --- bundle ---
+
+const bundle = program
+  .command('bundle')
+  .description('Keep several backups, each under a name, in one encrypted bundle file.');
+
+addKdfOptions(bundle.command('add <bundleFile> <inputFile>'))
+  .description(
+    'Add a backup (JSON or .bep) to a bundle, creating the bundle if the file does not exist.'
+  )
+  .option('-p, --password <password>', 'Passphrase of the bundle')
+  .option('--touchid', 'Use Touch ID to retrieve or cache the bundle password')
+  .option(
+    '--identity-key <keyOrFile>',
+    'Private key (WIF or hex), or a file containing it, for a recipient-encrypted bundle'
+  )
+  .option('--input-password <password>', 'Passphrase of an encrypted input (defaults to -p)')
+  .option('--name <name>', 'Entry name (defaults to the input file name)')
+  .option('--replace', 'Replace an existing entry of the same name')
+  .option(
+    '-t, --iterations <count>',
+    'Number of PBKDF2 iterations for a new bundle',
+    (val) => Number.parseInt(val, 10),
+    RECOMMENDED_PBKDF2_ITERATIONS
+  )
+  .action(
+    async (
+      bundleFile: string,
+      inputFile: string,
+      options: KdfCliOptions & {
+        password?: string;
+        touchid?: boolean;
+        identityKey?: string;
+        inputPassword?: string;
+        name?: string;
+        replace?: boolean;
+      }
+    ) => {
+      const secret = await resolveBundleSecret(bundleFile, options);
+      const bundlePath = path.resolve(bundleFile);
+      try {
+        const exists = await fs
+          .access(bundlePath)
+          .then(() => true)
+          .catch(() => false);
+        if (!exists && typeof secret !== 'string') {
+          throw new Error('A new bundle is passphrase-encrypted; create it with -p.');
+        }
+        const { encrypted, bundle: current } = exists
+          ? await readBundleFile(bundleFile, secret)
+          : { encrypted: undefined, bundle: { entries: [] } as BundleBackup };
+        const backup = await readBackupFile(inputFile, {
+          password: options.inputPassword ?? (typeof secret === 'string' ? secret : undefined),
+        });
+        const name = options.name ?? path.parse(inputFile).name;
+        const updated = addBundleEntry(current, name, backup, { replace: options.replace });
+
+        let content: string;
+        if (encrypted) {
+          // Keep the bundle's passphrase KDF, keyslots or recipients as they are
+          console.log('Re-encrypting bundle under its current keys...');
+          content = await resealBackup(encrypted, secret, updated);
+        } else {
+          const encryptOptions = toEncryptOptions(options);
+          console.log(`Encrypting bundle with ${describeKdf(encryptOptions)}...`);
+          content = await encryptBackup(updated, secret as string, encryptOptions);
+        }
+        await fs.mkdir(path.dirname(bundlePath), { recursive: true });
+        await writeFileAtomic(bundlePath, content);
+        console.log(
+          `${exists ? 'Added' : 'Created bundle with'} ${getBackupType(backup)} entry "${name}" (${updated.entries.length} total): ${bundlePath}`
+        );
+        await maybeCachePassword({
+          password: options.password,
+          touchid: options.touchid,
+          bepFilePath: bundleFile,
+        });
+      } catch (error) {
+        console.error('Failed to add to bundle:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+bundle
+  .command('list <bundleFile>')
+  .description('List the entries of a bundle without printing their keys.')
+  .option('-p, --password <password>', 'Passphrase of the bundle')
+  .option('--touchid', 'Use Touch ID to retrieve the bundle password')
+  .option(
+    '--identity-key <keyOrFile>',
+    'Private key (WIF or hex), or a file containing it, for a recipient-encrypted bundle'
+  )
+  .option('--json', 'Print the entries as JSON')
+  .action(
+    async (
+      bundleFile: string,
+      options: { password?: string; touchid?: boolean; identityKey?: string; json?: boolean }
+    ) => {
+      const secret = await resolveBundleSecret(bundleFile, options);
+      try {
+        const { bundle: current } = await readBundleFile(bundleFile, secret);
+        const entries = current.entries.map(({ name, backup }) => ({
+          name,
+          type: getBackupType(backup),
+          ...(backup.label ? { label: backup.label } : {}),
+          ...(backup.createdAt ? { createdAt: backup.createdAt } : {}),
+        }));
+        if (options.json) {
+          console.log(JSON.stringify(entries, null, 2));
+          return;
+        }
+        console.log(`${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}`);
+        for (const [i, entry] of entries.entries()) {
+          console.log(
+            `[${i}] ${entry.name} (${entry.type})${entry.label ? ` ${entry.label}` : ''}`
+          );
+        }
+      } catch (error) {
+        console.error('Failed to list bundle:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+addKdfOptions(bundle.command('extract <bundleFile> <name>'))
+  .description('Write one entry of a bundle as JSON, or as its own .bep file with -n.')
+  .option('-p, --password <password>', 'Passphrase of the bundle')
+  .option('--touchid', 'Use Touch ID to retrieve the bundle password')
+  .option(
+    '--identity-key <keyOrFile>',
+    'Private key (WIF or hex), or a file containing it, for a recipient-encrypted bundle'
+  )
+  .option('-n, --new-password <password>', 'Encrypt the entry to a .bep file with this passphrase')
+  .option(
+    '-t, --iterations <count>',
+    'Number of PBKDF2 iterations',
+    (val) => Number.parseInt(val, 10),
+    RECOMMENDED_PBKDF2_ITERATIONS
+  )
+  .option(
+    '-o, --output <outputFile>',
+    'Path to save the entry. If omitted, JSON is printed and a .bep is saved next to the bundle.'
+  )
+  .action(
+    async (
+      bundleFile: string,
+      name: string,
+      options: KdfCliOptions & {
+        password?: string;
+        touchid?: boolean;
+        identityKey?: string;
+        newPassword?: string;
+        output?: string;
+      }
+    ) => {
+      const secret = await resolveBundleSecret(bundleFile, options);
+      const encryptOptions = options.newPassword ? toEncryptOptions(options) : undefined;
+      try {
+        const { bundle: current } = await readBundleFile(bundleFile, secret);
+        const backup = getBundleEntry(current, name);
+        if (!options.newPassword || !encryptOptions) {
+          if (!options.output) {
+            console.log(formatPayload(backup));
+            return;
+          }
+          const outputPath = path.resolve(options.output);
+          await fs.mkdir(path.dirname(outputPath), { recursive: true });
+          await fs.writeFile(outputPath, formatPayload(backup), 'utf-8');
+          console.log(`Entry "${name}" saved to: ${outputPath}`);
+          return;
+        }
+        const bundlePath = path.parse(path.resolve(bundleFile));
+        const outputPath = path.resolve(
+          options.output ??
+            path.join(bundlePath.dir, `${bundlePath.name}_${name.replace(/[^\w.-]/g, '_')}.bep`)
+        );
+        console.log(`Encrypting with ${describeKdf(encryptOptions)}...`);
+        const encrypted = await encryptBackup(backup, options.newPassword, encryptOptions);
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, encrypted, 'utf-8');
+        console.log(`Entry "${name}" (${getBackupType(backup)}) saved to: ${outputPath}`);
+      } catch (error) {
+        console.error('Extract failed:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+bundle
+  .command('remove <bundleFile> <name>')
+  .description('Remove an entry from a bundle, re-encrypting it under the same keys.')
+  .option('-p, --password <password>', 'Passphrase of the bundle')
+  .option('--touchid', 'Use Touch ID to retrieve the bundle password')
+  .option(
+    '--identity-key <keyOrFile>',
+    'Private key (WIF or hex), or a file containing it, for a recipient-encrypted bundle'
+  )
+  .option('-o, --output <outputFile>', 'Path to save the updated bundle (defaults to in place)')
+  .action(
+    async (
+      bundleFile: string,
+      name: string,
+      options: { password?: string; touchid?: boolean; identityKey?: string; output?: string }
+    ) => {
+      const secret = await resolveBundleSecret(bundleFile, options);
+      const outputPath = path.resolve(options.output ?? bundleFile);
+      try {
+        const { encrypted, bundle: current } = await readBundleFile(bundleFile, secret);
+        const updated = removeBundleEntry(current, name);
+        const content = await resealBackup(encrypted, secret, updated);
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await writeFileAtomic(outputPath, content);
+        console.log(
+          `Entry "${name}" removed (${updated.entries.length} left). Saved to ${outputPath}`
+        );
+      } catch (error) {
+        console.error('Failed to remove entry:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
 // --- forget ---
 
 program
@@ -0,0 +1,207 @@
+/**
+ * Helpers for the BAP data inside master backups, compatible with bsv-bap
+ * without depending on it.
+ *
+ * A master backup's `ids` is bsv-bap's `exportIds()` output: the identities
+ * JSON, Electrum-ECIES encrypted to a key derived from the master key at
+ * ENCRYPTION_PATH (a BIP32 path for legacy backups, a Type 42 invoice number
+ * for rootPk backups), then Base64 encoded.
+ */
+
+import { ECIES, Hash, HD, PrivateKey, Utils } from '@bsv/sdk';
+import { CorruptBackupError, InvalidPayloadError, UnsupportedFormatError } from './errors';
+import { getBackupType, isLegacyBackup, isMasterBackup } from './guards';
+import type {
+  BapIdentity,
+  BapMasterBackup,
+  BapMasterBackupLegacy,
+  DecryptedBackup,
+  MasterBackupType42,
+} from './interfaces';
+
+const MAX_INT = 2147483647;
+
+/** bsv-bap's derivation path (or Type 42 invoice number) of the ids encryption key. */
+const ENCRYPTION_PATH = `m/424150'/${MAX_INT}'/${MAX_INT}'`;
+
+/** Prefix of bsv-bap's BIP32 identity paths ("BAP" in hex). */
+const SIGNING_PATH_PREFIX = "m/424150'/0'/0'";
+
+/** Derives a BAP identity key from the address of the identity's root key, as bsv-bap does. */
+export function bapIdFromAddress(address: string): string {
+  const rootAddressHash = Utils.toHex(Hash.sha256(address, 'utf8'));
+  return Utils.toBase58(Hash.ripemd160(rootAddressHash, 'hex'));
+}
+
+/**
+ * Paths bsv-bap's `newId()` gives the identity at `index` (counting from 0) of
+ * a master key without an id seed: BIP32 paths for legacy backups, Type 42
+ * invoice numbers for rootPk backups. The root path fixes the identity key;
+ * the current path is the member key exported in account backups.
+ */
+export function bapIdentityPaths(
+  backup: BapMasterBackup,
+  index: number
+): { rootPath: string; currentPath: string } {
+  if (!isLegacyBackup(backup)) return { rootPath: `bap:${index}`, currentPath: `bap:${index}` };
+  return {
+    rootPath: `${SIGNING_PATH_PREFIX}/0'/${index}'/0'`,
+    currentPath: `${SIGNING_PATH_PREFIX}/0'/${index}'/1'`,
+  };
+}
+
+/**
+ * The root key of a legacy master backup.
+ * @throws InvalidPayloadError if `xprv` is not a valid extended private key.
+ */
+export function legacyRootKey(backup: BapMasterBackupLegacy): HD {
+  try {
+    return HD.fromString(backup.xprv);
+  } catch {
+    throw new InvalidPayloadError('Invalid backup: xprv is not a valid extended private key.');
+  }
+}
+
+/**
+ * The root key of a Type 42 master backup.
+ * @throws InvalidPayloadError if `rootPk` is not a valid WIF private key.
+ */
+export function type42RootKey(backup: MasterBackupType42): PrivateKey {
+  try {
+    return PrivateKey.fromWif(backup.rootPk);
+  } catch {
+    throw new InvalidPayloadError('Invalid backup: rootPk is not a valid WIF private key.');
+  }
+}
+
+/** The private key bsv-bap encrypts a master backup's `ids` to. */
+function idsEncryptionKey(backup: BapMasterBackup): PrivateKey {
+  if (isLegacyBackup(backup)) return legacyRootKey(backup).derive(ENCRYPTION_PATH).privKey;
+  const rootPk = type42RootKey(backup);
+  return rootPk.deriveChild(rootPk.toPublicKey(), ENCRYPTION_PATH);
+}
+
+/**
+ * Decrypts and parses a master backup's `ids` export.
+ * @returns The identities export: `{ lastIdPath, ids: [...] }`, or an array of
+ *          identities for exports written by early bsv-bap versions.
+ * @throws InvalidPayloadError if the master key is malformed.
+ * @throws CorruptBackupError if `ids` does not decrypt with the master key or is not JSON.
+ */
+export function decryptBapIds(backup: BapMasterBackup): unknown {
+  const key = idsEncryptionKey(backup);
+  let plaintext: string;
+  try {
+    const ciphertext = Utils.toArray(backup.ids, 'base64');
+    plaintext = Utils.toUTF8(ECIES.electrumDecrypt(ciphertext, key));
+  } catch {
+    throw new CorruptBackupError('Invalid BAP ids: they do not decrypt with the master key.');
+  }
+  try {
+    return JSON.parse(plaintext);
+  } catch {
+    throw new CorruptBackupError('Invalid BAP ids: decrypted data is not JSON.');
+  }
+}
+
+/** Encrypts an identities export to a master backup's key, as bsv-bap's `exportIds()` does. */
+export function encryptBapIds(backup: BapMasterBackup, ids: unknown): string {
+  const plaintext = Utils.toArray(JSON.stringify(ids), 'utf8');
+  return Utils.toBase64(ECIES.electrumEncrypt(plaintext, idsEncryptionKey(backup).toPublicKey()));
+}
+
+/** Fields of an identity in bsv-bap's identities export, unchecked. */
+export interface BapIdentityRecord {
+  identityKey?: unknown;
+  rootPath?: unknown;
+  rootAddress?: unknown;
+  currentPath?: unknown;
+  name?: unknown;
+  idSeed?: unknown;
+}
+
+/** The identities of a decrypted identities export, or undefined if it has no id list. */
+export function bapIdentityRecords(ids: unknown): BapIdentityRecord[] | undefined {
+  const list = Array.isArray(ids) ? ids : (ids as { ids?: unknown } | null)?.ids;
+  if (!Array.isArray(list)) return undefined;
+  return list.filter((id): id is BapIdentityRecord => typeof id === 'object' && id !== null);
+}
+
+/** Identity keys listed in a decrypted identities export, or undefined if it has no id list. */
+export function bapIdentityKeys(ids: unknown): string[] | undefined {
+  return bapIdentityRecords(ids)
+    ?.map((id) => id.identityKey)
+    .filter((key): key is string => typeof key === 'string');
+}
+
+/** Derivation path bsv-bap derives an id seed's key at (legacy backups). */
+function seedPath(seedHex: string): string {
+  return `m${(seedHex.match(/.{1,8}/g) ?? [])
+    .map((chunk) => {
+      const index = Number(`0x${chunk}`);
+      return `/${index > MAX_INT ? index - MAX_INT : index}'`;
+    })
+    .join('')}`;
+}
+
+/**
+ * The private key of a master backup at an identity path (root or current
+ * path), as bsv-bap's MasterID derives it: the BIP32 child (legacy) or the
+ * Type 42 child with the path as invoice number, taken from the key of the
+ * identity's id seed if it has one.
+ * @throws InvalidPayloadError if the master key is malformed.
+ */
+export function bapPathKey(backup: BapMasterBackup, path: string, idSeed = ''): PrivateKey {
+  const seedHex = idSeed ? Utils.toHex(Hash.sha256(idSeed, 'utf8')) : '';
+  if (isLegacyBackup(backup)) {
+    const hd = legacyRootKey(backup);
+    return (seedHex ? hd.derive(seedPath(seedHex)) : hd).derive(path).privKey;
+  }
+  const rootPk = type42RootKey(backup);
+  const base = seedHex ? rootPk.deriveChild(rootPk.toPublicKey(), seedHex) : rootPk;
+  return base.deriveChild(base.toPublicKey(), path);
+}
+
+/**
+ * The address of a master backup's identity root key at `rootPath`. bsv-bap's
+ * `importIds()` rejects identities whose recorded rootAddress differs.
+ */
+export function bapRootAddress(backup: BapMasterBackup, rootPath: string): string {
+  return bapPathKey(backup, rootPath).toPublicKey().toAddress();
+}
+
+/**
+ * Lists the BAP identities stored in a master backup's `ids`, decrypting them
+ * with the master key as bsv-bap's `importIds()` does.
+ *
+ * @throws UnsupportedFormatError if the backup is not a master backup.
+ * @throws InvalidPayloadError if the master key is malformed.
+ * @throws CorruptBackupError if `ids` does not decrypt, or an identity lacks its key, paths or root address.
+ */
+export function listBapIdentities(backup: DecryptedBackup): BapIdentity[] {
+  if (!isMasterBackup(backup)) {
+    throw new UnsupportedFormatError(
+      `Cannot list BAP identities of a ${getBackupType(backup)} backup: only master backups have ids.`
+    );
+  }
+  const records = bapIdentityRecords(decryptBapIds(backup));
+  if (!records) throw new CorruptBackupError('Invalid BAP ids: no identity list.');
+  return records.map((id, i) => {
+    const { identityKey, rootAddress, rootPath, currentPath, name } = id;
+    if (
+      typeof identityKey !== 'string' ||
+      typeof rootAddress !== 'string' ||
+      typeof rootPath !== 'string' ||
+      typeof currentPath !== 'string'
+    ) {
+      throw new CorruptBackupError(`Invalid BAP ids: identity ${i + 1} is incomplete.`);
+    }
+    return {
+      identityKey,
+      ...(typeof name === 'string' && name ? { name } : {}),
+      rootAddress,
+      rootPath,
+      currentPath,
+    };
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Bundles: several named backups (a master, its accounts, a vault, ...) kept in
+ * one BundleBackup payload so they share a single encrypted file. The helpers
+ * return new bundles and leave their input unchanged.
+ */
+
+import { InvalidOptionsError } from './errors';
+import { isBundleBackup } from './guards';
+import type { BundleBackup, BundleEntry, DecryptedBackup } from './interfaces';
+
+/**
+ * Returns the bundle with `backup` added under `name`. An existing entry of
+ * that name is replaced in place if `options.replace` is set.
+ *
+ * @throws InvalidOptionsError if the name is empty or taken, or `backup` is itself a bundle.
+ */
+export function addBundleEntry(
+  bundle: BundleBackup,
+  name: string,
+  backup: DecryptedBackup,
+  options: { replace?: boolean } = {}
+): BundleBackup {
+  if (!name) {
+    throw new InvalidOptionsError('Invalid bundle entry: a name is required.');
+  }
+  if (isBundleBackup(backup)) {
+    throw new InvalidOptionsError('Invalid bundle entry: bundles cannot contain other bundles.');
+  }
+  const entry: BundleEntry = { name, backup };
+  const index = bundle.entries.findIndex((existing) => existing.name === name);
+  if (index === -1) return { ...bundle, entries: [...bundle.entries, entry] };
+  if (!options.replace) {
+    throw new InvalidOptionsError(`The bundle already has an entry named "${name}".`);
+  }
+  return {
+    ...bundle,
+    entries: bundle.entries.map((existing, i) => (i === index ? entry : existing)),
+  };
+}
+
+/**
+ * Returns the backup stored under `name`.
+ * @throws InvalidOptionsError if the bundle has no entry of that name.
+ */
+export function getBundleEntry(bundle: BundleBackup, name: string): DecryptedBackup {
+  const entry = bundle.entries.find((existing) => existing.name === name);
+  if (!entry) {
+    throw new InvalidOptionsError(`No entry named "${name}" in this bundle.`);
+  }
+  return entry.backup;
+}
+
+/**
+ * Returns the bundle without the entry named `name`.
+ * @throws InvalidOptionsError if the bundle has no entry of that name.
+ */
+export function removeBundleEntry(bundle: BundleBackup, name: string): BundleBackup {
+  getBundleEntry(bundle, name);
+  return { ...bundle, entries: bundle.entries.filter((existing) => existing.name !== name) };
+}
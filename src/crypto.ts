@@ -1,17 +1,58 @@
-import { Utils } from '@bsv/sdk';
+import { ECIES, PrivateKey, PublicKey, Utils } from '@bsv/sdk';
+import { argon2idAsync } from '@noble/hashes/argon2.js';
+import {
+  type Argon2idParams,
+  type EnvelopeKdf,
+  encodeEnvelopeHeader,
+  envelopeHeaderLength,
+  hasEnvelopeMagic,
+  ivLengthFor,
+  type Keyslot,
+  type KeyslotsParams,
+  type ParsedEnvelope,
+  type Pbkdf2Params,
+  parseEnvelope,
+  replaceEnvelopeKdf,
+} from './envelope';
+import {
+  type BackupError,
+  CorruptBackupError,
+  InvalidOptionsError,
+  InvalidPassphraseError,
+  InvalidPayloadError,
+  UnsupportedFormatError,
+} from './errors';
+import { getBackupType, isBackupTypeName } from './guards';
 import type {
+  BackupInfo,
+  BackupKdfInfo,
+  BackupMetadata,
   BapAccountBackup,
   BapMasterBackup,
+  BundleBackup,
   DecryptedBackup,
   EncryptedBackup,
+  EncryptOptions,
   OneSatBackup,
+  PassphraseKdfInfo,
+  StreamEncryptOptions,
   VaultBackup,
   WifBackup,
   YoursWalletBackup,
   YoursWalletZipBackup,
 } from './interfaces';
+import { decodePayload, encodePayload, type PayloadEncoding, payloadEncodingFor } from './payload';
+import {
+  createByteQueue,
+  openSegment,
+  STREAM_NONCE_PREFIX_LENGTH,
+  STREAM_SEGMENT_SIZE,
+  STREAM_TAG_LENGTH,
+  sealSegment,
+} from './stream';
+import { hasDeclaredShape } from './structure';
 
-const { toArray, toBase64 } = Utils;
+const { toArray, toBase64, toHex } = Utils;
 
 export const RECOMMENDED_PBKDF2_ITERATIONS = 600000;
 export const LEGACY_PBKDF2_ITERATIONS = 100000;
@@ -19,6 +60,12 @@ export const LEGACY_PBKDF2_ITERATIONS = 100000;
 // This export will be what users see as the "current default"
 export const DEFAULT_PBKDF2_ITERATIONS = RECOMMENDED_PBKDF2_ITERATIONS;
 
+/**
+ * Default Argon2id cost: 64 MiB, 3 passes, 1 lane (RFC 9106 second recommended
+ * option, single lane since Web Crypto runtimes compute lanes sequentially).
+ */
+export const DEFAULT_ARGON2ID_PARAMS = { memory: 65536, time: 3, parallelism: 1 } as const;
+
 const SALT_LENGTH_BYTES = 16;
 const IV_LENGTH_BYTES = 12;
 const AES_KEY_LENGTH_BITS = 256;
@@ -60,70 +107,423 @@ async function deriveKey(
 }
 
 /**
- * Encrypts a backup payload object into a Base64 encoded string.
- * The string concatenates salt, IV, and the encrypted content.
- * @param iterations Optional number of PBKDF2 iterations. Defaults to DEFAULT_PBKDF2_ITERATIONS.
+ * Derives the AES-GCM key described by an envelope's KDF parameters.
  */
-export async function encryptData(
-  payload: DecryptedBackup,
+async function deriveEnvelopeKey(
   passphrase: string,
-  iterations?: number // Optional iterations for encryption
-): Promise<EncryptedBackup> {
-  const salt = globalThis.crypto.getRandomValues(new Uint8Array(SALT_LENGTH_BYTES));
-  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH_BYTES));
+  kdf: Pbkdf2Params | Argon2idParams
+): Promise<CryptoKey> {
+  if (kdf.id === 'pbkdf2-sha256') return deriveKey(passphrase, kdf.salt, kdf.iterations);
+
+  const rawKey = await argon2idAsync(Uint8Array.from(toArray(passphrase, 'utf8')), kdf.salt, {
+    m: kdf.memory,
+    t: kdf.time,
+    p: kdf.parallelism,
+    dkLen: AES_KEY_LENGTH_BITS / 8,
+  });
+  return globalThis.crypto.subtle.importKey(
+    'raw',
+    Uint8Array.from(rawKey),
+    { name: 'AES-GCM', length: AES_KEY_LENGTH_BITS },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
 
-  // deriveKey will use its default (DEFAULT_PBKDF2_ITERATIONS) if iterations is undefined
-  const key = await deriveKey(passphrase, salt, iterations);
+/**
+ * Builds the KDF parameters for a new backup from encrypt options and a fresh salt.
+ */
+function resolveKdf(
+  options: EncryptOptions,
+  salt: Uint8Array<ArrayBuffer>
+): Pbkdf2Params | Argon2idParams {
+  if (options.kdf === 'argon2id') {
+    return {
+      id: 'argon2id',
+      memory: options.argon2?.memory ?? DEFAULT_ARGON2ID_PARAMS.memory,
+      time: options.argon2?.time ?? DEFAULT_ARGON2ID_PARAMS.time,
+      parallelism: options.argon2?.parallelism ?? DEFAULT_ARGON2ID_PARAMS.parallelism,
+      salt,
+    };
+  }
+  return {
+    id: 'pbkdf2-sha256',
+    iterations: options.iterations ?? RECOMMENDED_PBKDF2_ITERATIONS,
+    salt,
+  };
+}
+
+/**
+ * Selects the payload fields exposed as cleartext metadata.
+ */
+function publicMetadataFor(payload: DecryptedBackup): BackupMetadata {
+  return { type: getBackupType(payload), label: payload.label, createdAt: payload.createdAt };
+}
+
+/**
+ * Encrypts the payload under `key` and serializes the envelope: header, IV and
+ * ciphertext, Base64 encoded. Stamps the `type` discriminator, and createdAt if
+ * the payload lacks one.
+ */
+async function sealEnvelope(
+  payload: DecryptedBackup,
+  key: CryptoKey,
+  kdf: EnvelopeKdf,
+  publicMetadata?: boolean
+): Promise<EncryptedBackup> {
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(ivLengthFor('aes-256-gcm')));
 
+  const type = getBackupType(payload);
   const payloadToEncrypt = {
     ...payload,
+    ...(type !== 'Unknown' && { type }),
     createdAt: payload.createdAt || new Date().toISOString(),
-  };
+  } as DecryptedBackup;
 
-  const jsonPayload = JSON.stringify(payloadToEncrypt);
-  const dataToEncrypt = new TextEncoder().encode(jsonPayload);
+  const encoding = payloadEncodingFor(payloadToEncrypt);
+  const header = encodeEnvelopeHeader({
+    cipher: 'aes-256-gcm',
+    kdf,
+    metadata: publicMetadata ? publicMetadataFor(payloadToEncrypt) : undefined,
+    encoding,
+  });
+
+  const dataToEncrypt = encodePayload(payloadToEncrypt, encoding);
 
   const encryptedContent = await globalThis.crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv: iv },
+    { name: 'AES-GCM', iv, additionalData: header.aad },
     key,
     dataToEncrypt
   );
 
-  const combined = new Uint8Array(salt.length + iv.length + encryptedContent.byteLength);
-  combined.set(salt, 0);
-  combined.set(iv, salt.length);
-  combined.set(new Uint8Array(encryptedContent), salt.length + iv.length);
+  const combined = new Uint8Array(header.bytes.length + iv.length + encryptedContent.byteLength);
+  combined.set(header.bytes, 0);
+  combined.set(iv, header.bytes.length);
+  combined.set(new Uint8Array(encryptedContent), header.bytes.length + iv.length);
 
   return toBase64(Array.from(combined));
 }
 
 /**
- * Decrypts an encrypted backup string back into a backup payload object.
- * Handles JSON-structured and legacy raw WIF backups.
- * @param attemptIterations Optional. A specific iteration count, or an array of counts to try in order.
- *                        Defaults to trying [DEFAULT_PBKDF2_ITERATIONS, LEGACY_PBKDF2_ITERATIONS].
+ * Encrypts a backup payload object into a Base64 encoded envelope.
+ * The envelope header records the format version, cipher and KDF parameters
+ * ahead of the IV and encrypted content (see ./envelope). With
+ * `publicMetadata`, the label, type and createdAt are also stored in cleartext
+ * and authenticated as additional data.
+ * @param options Optional PBKDF2 iteration count, or EncryptOptions selecting the KDF
+ *                and its parameters. Defaults to PBKDF2 with DEFAULT_PBKDF2_ITERATIONS.
  */
-export async function decryptData(
-  encryptedBackup: EncryptedBackup,
+export async function encryptData(
+  payload: DecryptedBackup,
+  passphrase: string,
+  options?: number | EncryptOptions
+): Promise<EncryptedBackup> {
+  const opts: EncryptOptions =
+    typeof options === 'number' ? { iterations: options } : (options ?? {});
+  if (opts.keyslots) {
+    const contentKey = await generateContentKey();
+    const slot = await createKeyslot(contentKey.raw, passphrase, opts);
+    contentKey.raw.fill(0);
+    return sealEnvelope(
+      payload,
+      contentKey.key,
+      { id: 'keyslots', slots: [slot] },
+      opts.publicMetadata
+    );
+  }
+  const salt = globalThis.crypto.getRandomValues(new Uint8Array(SALT_LENGTH_BYTES));
+
+  const kdf = resolveKdf(opts, salt);
+  const key = await deriveEnvelopeKey(passphrase, kdf);
+  return sealEnvelope(payload, key, kdf, opts.publicMetadata);
+}
+
+/** Generates a random AES-256-GCM content key, returning its raw bytes and CryptoKey. */
+async function generateContentKey(): Promise<{
+  raw: Uint8Array<ArrayBuffer>;
+  key: CryptoKey;
+}> {
+  const raw = globalThis.crypto.getRandomValues(new Uint8Array(AES_KEY_LENGTH_BITS / 8));
+  const key = await importContentKey(raw);
+  return { raw, key };
+}
+
+/** Imports raw content key bytes as an AES-256-GCM key. */
+function importContentKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return globalThis.crypto.subtle.importKey(
+    'raw',
+    raw,
+    { name: 'AES-GCM', length: AES_KEY_LENGTH_BITS },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Seals a raw content key under a key derived from `passphrase` with a fresh salt.
+ */
+async function createKeyslot(
+  rawContentKey: Uint8Array<ArrayBuffer>,
+  passphrase: string,
+  options: EncryptOptions
+): Promise<Keyslot> {
+  const salt = globalThis.crypto.getRandomValues(new Uint8Array(SALT_LENGTH_BYTES));
+  const kdf = resolveKdf(options, salt);
+  const slotKey = await deriveEnvelopeKey(passphrase, kdf);
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH_BYTES));
+  const wrappedKey = await globalThis.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    slotKey,
+    rawContentKey
+  );
+  return { kdf, iv, wrappedKey: new Uint8Array(wrappedKey) };
+}
+
+/**
+ * Finds the keyslot that `passphrase` opens, trying each slot in order.
+ * @returns The slot index and the raw content key.
+ * @throws If no slot accepts the passphrase.
+ */
+async function openKeyslot(
+  kdf: KeyslotsParams,
   passphrase: string,
   attemptIterations?: number | number[]
+): Promise<{ index: number; rawContentKey: Uint8Array<ArrayBuffer> }> {
+  for (const [index, slot] of kdf.slots.entries()) {
+    if (!iterationsAllowed(slot.kdf, attemptIterations)) continue;
+    const slotKey = await deriveEnvelopeKey(passphrase, slot.kdf);
+    try {
+      const raw = await globalThis.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: slot.iv },
+        slotKey,
+        slot.wrappedKey
+      );
+      return { index, rawContentKey: new Uint8Array(raw) };
+    } catch (unwrapError) {
+      if (unwrapError instanceof DOMException && unwrapError.name === 'OperationError') continue;
+      throw unwrapError;
+    }
+  }
+  throw new InvalidPassphraseError('Decryption failed: Invalid passphrase or corrupted data.');
+}
+
+/** Encrypt options that reproduce a recorded passphrase KDF's cost parameters. */
+function encryptOptionsFor(kdf: EnvelopeKdf | undefined): EncryptOptions {
+  if (kdf?.id === 'pbkdf2-sha256') return { iterations: kdf.iterations };
+  if (kdf?.id === 'argon2id') {
+    const { memory, time, parallelism } = kdf;
+    return { kdf: 'argon2id', argon2: { memory, time, parallelism } };
+  }
+  return {};
+}
+
+/**
+ * Encrypts a backup payload to one or more secp256k1 public keys.
+ * A random content key encrypts the payload; it is wrapped to each recipient
+ * with Electrum-style ECIES (ephemeral sender key) and stored in the header.
+ * @param recipients Recipient public keys (compressed or uncompressed hex, or PublicKey).
+ */
+export async function encryptDataForRecipients(
+  payload: DecryptedBackup,
+  recipients: (string | PublicKey)[],
+  options: Pick<EncryptOptions, 'publicMetadata'> = {}
+): Promise<EncryptedBackup> {
+  const contentKey = await generateContentKey();
+  const kdf: EnvelopeKdf = {
+    id: 'ecies-recipients',
+    recipients: recipients.map((recipient) => {
+      const publicKey = typeof recipient === 'string' ? PublicKey.fromString(recipient) : recipient;
+      return {
+        publicKey: Uint8Array.from(publicKey.encode(true) as number[]),
+        wrappedKey: Uint8Array.from(ECIES.electrumEncrypt(Array.from(contentKey.raw), publicKey)),
+      };
+    }),
+  };
+  contentKey.raw.fill(0);
+  return sealEnvelope(payload, contentKey.key, kdf, options.publicMetadata);
+}
+
+const INVALID_PASSPHRASE_MESSAGE =
+  'Decryption failed: Invalid passphrase or corrupted data across all attempted iteration counts.';
+
+/**
+ * Maps decrypted plaintext to a typed backup payload, trusting its `type`
+ * discriminator when the fields that type requires are present and inferring
+ * the type from its keys otherwise.
+ * JSON plaintext that does not parse is a legacy raw WIF backup.
+ */
+function parseDecryptedPayload(
+  plaintext: Uint8Array,
+  encoding: PayloadEncoding = 'json'
+): DecryptedBackup {
+  let decoded: unknown;
+  try {
+    decoded = decodePayload(plaintext, encoding);
+  } catch (decodeError) {
+    if (encoding === 'json' && decodeError instanceof SyntaxError) {
+      return { wif: new TextDecoder().decode(plaintext) } as WifBackup;
+    }
+    throw new CorruptBackupError('Decryption failed: Backup payload could not be decoded.');
+  }
+  if (typeof decoded === 'object' && decoded !== null) {
+    const parsed = decoded as DecryptedBackup & Record<string, unknown>;
+    if (isBackupTypeName(parsed.type)) {
+      if (hasDeclaredShape(parsed, parsed.type)) return parsed as DecryptedBackup;
+      throw new InvalidPayloadError(
+        `Invalid backup structure after decoding: missing fields for type '${parsed.type}'.`
+      );
+    }
+    if ('xprv' in parsed && 'ids' in parsed && 'mnemonic' in parsed)
+      return parsed as BapMasterBackup;
+    if ('rootPk' in parsed && 'ids' in parsed) return parsed as BapMasterBackup;
+    if ('wif' in parsed && 'id' in parsed) return parsed as BapAccountBackup;
+    // Check for YoursWalletBackup before OneSatBackup (more specific)
+    if (
+      'payPk' in parsed &&
+      'ordPk' in parsed &&
+      ('mnemonic' in parsed || 'payDerivationPath' in parsed || 'ordDerivationPath' in parsed)
+    )
+      return parsed as YoursWalletBackup;
+    // Check for YoursWalletZipBackup (parsed Yours Wallet ZIP)
+    if (
+      'chromeStorage' in parsed &&
+      typeof parsed.chromeStorage === 'object' &&
+      parsed.chromeStorage !== null
+    )
+      return parsed as YoursWalletZipBackup;
+    if ('ordPk' in parsed && 'payPk' in parsed && 'identityPk' in parsed)
+      return parsed as OneSatBackup;
+    if ('encryptedVault' in parsed) return parsed as VaultBackup;
+    if ('wif' in parsed && !('id' in parsed) && !('xprv' in parsed) && !('rootPk' in parsed))
+      return parsed as WifBackup;
+    if ('entries' in parsed && Array.isArray(parsed.entries)) return parsed as BundleBackup;
+  }
+  throw new InvalidPayloadError('Invalid backup structure after decoding.');
+}
+
+/**
+ * Decrypts an envelope's ciphertext with its content key and parses the payload.
+ * @param authFailure Builds the error thrown when authentication fails.
+ */
+async function openEnvelope(
+  envelope: ParsedEnvelope,
+  key: CryptoKey,
+  authFailure: () => BackupError
 ): Promise<DecryptedBackup> {
-  let combinedBytesNumbers: number[];
+  if (envelope.header.cipher !== 'aes-256-gcm') {
+    throw new UnsupportedFormatError(
+      'Decryption failed: Backup is a streamed envelope; use decryptBackupStream.'
+    );
+  }
+  let decryptedArrayBuffer: ArrayBuffer;
   try {
-    combinedBytesNumbers = toArray(encryptedBackup, 'base64');
-  } catch (error) {
-    console.error('Failed to decode base64 string (toArray threw):', error);
-    throw new Error('Decryption failed: Invalid Base64 input.');
+    decryptedArrayBuffer = await globalThis.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: envelope.iv, additionalData: envelope.aad },
+      key,
+      envelope.ciphertext
+    );
+  } catch (decryptionError) {
+    if (decryptionError instanceof DOMException && decryptionError.name === 'OperationError') {
+      throw authFailure();
+    }
+    throw decryptionError;
   }
+  return parseDecryptedPayload(new Uint8Array(decryptedArrayBuffer), envelope.header.encoding);
+}
 
-  if (encryptedBackup.length > 0 && combinedBytesNumbers.length === 0) {
-    throw new Error('Decryption failed: Invalid Base64 input (decoded to empty).');
+/**
+ * Recovers the key that encrypts an envelope's payload: derived from a
+ * passphrase, unwrapped from the keyslot it opens, or unwrapped with a
+ * recipient's private key. Also returns the error to throw if the payload then
+ * fails authentication.
+ */
+async function unlockEnvelope(
+  envelope: ParsedEnvelope,
+  secret: string | PrivateKey,
+  attemptIterations?: number | number[]
+): Promise<{ key: CryptoKey; authFailure: () => BackupError }> {
+  const { kdf } = envelope.header;
+  const corrupted = () => new CorruptBackupError('Decryption failed: Corrupted data.');
+
+  if (kdf.id === 'ecies-recipients') {
+    if (typeof secret === 'string') {
+      throw new UnsupportedFormatError(
+        'Decryption failed: Backup is encrypted to recipient public keys; a private key is required.'
+      );
+    }
+    const ownPublicKey = toHex(secret.toPublicKey().encode(true) as number[]);
+    const recipient = kdf.recipients.find((r) => toHex(Array.from(r.publicKey)) === ownPublicKey);
+    if (!recipient) {
+      throw new InvalidPassphraseError(
+        'Decryption failed: Private key is not a recipient of this backup.'
+      );
+    }
+    let rawContentKey: number[];
+    try {
+      rawContentKey = ECIES.electrumDecrypt(Array.from(recipient.wrappedKey), secret);
+    } catch {
+      throw new CorruptBackupError(
+        'Decryption failed: Could not unwrap the content key (corrupted data).'
+      );
+    }
+    return { key: await importContentKey(Uint8Array.from(rawContentKey)), authFailure: corrupted };
+  }
+  if (typeof secret !== 'string') {
+    throw new UnsupportedFormatError(
+      'Decryption failed: Backup is passphrase-encrypted, not encrypted to recipient public keys.'
+    );
   }
 
-  const combinedBytes = Uint8Array.from(combinedBytesNumbers);
+  if (kdf.id === 'keyslots') {
+    const { rawContentKey } = await openKeyslot(kdf, secret, attemptIterations);
+    const key = await importContentKey(rawContentKey);
+    rawContentKey.fill(0);
+    return { key, authFailure: corrupted };
+  }
 
+  if (!iterationsAllowed(kdf, attemptIterations))
+    throw new InvalidPassphraseError(INVALID_PASSPHRASE_MESSAGE);
+  return {
+    key: await deriveEnvelopeKey(secret, kdf),
+    authFailure: () =>
+      new InvalidPassphraseError('Decryption failed: Invalid passphrase or corrupted data.'),
+  };
+}
+
+/**
+ * Decrypts a versioned envelope. The KDF and its parameters come from the
+ * header, so exactly one key derivation is performed per attempt.
+ */
+async function decryptEnvelope(
+  envelope: ParsedEnvelope,
+  passphrase: string,
+  attemptIterations?: number | number[]
+): Promise<DecryptedBackup> {
+  const { key, authFailure } = await unlockEnvelope(envelope, passphrase, attemptIterations);
+  return openEnvelope(envelope, key, authFailure);
+}
+
+/** An explicit iteration list restricts which recorded PBKDF2 counts are acceptable. */
+function iterationsAllowed(
+  kdf: Pbkdf2Params | Argon2idParams,
+  attemptIterations?: number | number[]
+): boolean {
+  if (kdf.id !== 'pbkdf2-sha256' || attemptIterations === undefined) return true;
+  const allowed = typeof attemptIterations === 'number' ? [attemptIterations] : attemptIterations;
+  return allowed.includes(kdf.iterations);
+}
+
+/**
+ * Decrypts a legacy headerless salt ‖ IV ‖ ciphertext blob. The iteration
+ * count is not recorded, so each candidate count is tried in turn.
+ */
+async function decryptLegacy(
+  combinedBytes: Uint8Array<ArrayBuffer>,
+  passphrase: string,
+  attemptIterations?: number | number[]
+): Promise<DecryptedBackup> {
   if (combinedBytes.length < SALT_LENGTH_BYTES + IV_LENGTH_BYTES) {
-    throw new Error('Decryption failed: Encrypted data is too short.');
+    throw new CorruptBackupError('Decryption failed: Encrypted data is too short.');
   }
 
   const salt = combinedBytes.slice(0, SALT_LENGTH_BYTES);
@@ -147,49 +547,9 @@ export async function decryptData(
         key,
         encryptedCiphertext
       );
-      const decryptedString = new TextDecoder().decode(decryptedArrayBuffer);
-      try {
-        const parsedJson = JSON.parse(decryptedString);
-        if (typeof parsedJson === 'object' && parsedJson !== null) {
-          if ('xprv' in parsedJson && 'ids' in parsedJson && 'mnemonic' in parsedJson)
-            return parsedJson as BapMasterBackup;
-          if ('rootPk' in parsedJson && 'ids' in parsedJson) return parsedJson as BapMasterBackup;
-          if ('wif' in parsedJson && 'id' in parsedJson) return parsedJson as BapAccountBackup;
-          // Check for YoursWalletBackup before OneSatBackup (more specific)
-          if (
-            'payPk' in parsedJson &&
-            'ordPk' in parsedJson &&
-            ('mnemonic' in parsedJson ||
-              'payDerivationPath' in parsedJson ||
-              'ordDerivationPath' in parsedJson)
-          )
-            return parsedJson as YoursWalletBackup;
-          // Check for YoursWalletZipBackup (parsed Yours Wallet ZIP)
-          if (
-            'chromeStorage' in parsedJson &&
-            typeof parsedJson.chromeStorage === 'object' &&
-            parsedJson.chromeStorage !== null
-          )
-            return parsedJson as YoursWalletZipBackup;
-          if ('ordPk' in parsedJson && 'payPk' in parsedJson && 'identityPk' in parsedJson)
-            return parsedJson as OneSatBackup;
-          if ('encryptedVault' in parsedJson) return parsedJson as VaultBackup;
-          if (
-            'wif' in parsedJson &&
-            !('id' in parsedJson) &&
-            !('xprv' in parsedJson) &&
-            !('rootPk' in parsedJson)
-          )
-            return parsedJson as WifBackup;
-        }
-        throw new Error('Invalid backup structure after JSON parse.');
-      } catch (jsonError) {
-        if (jsonError instanceof SyntaxError) return { wif: decryptedString } as WifBackup;
-        throw jsonError;
-      }
+      return parseDecryptedPayload(new Uint8Array(decryptedArrayBuffer));
     } catch (decryptionError) {
       lastError = decryptionError as Error;
-      // console.log(`Decryption attempt failed with ${iterations} iterations.`); // Optional: for debugging
       if (decryptionError instanceof DOMException && decryptionError.name === 'OperationError') {
         // This is the expected error for wrong key / corrupted data, continue to next iteration count
         continue;
@@ -198,16 +558,330 @@ export async function decryptData(
     }
   }
   // If all iteration counts failed
-  console.error('All decryption attempts failed. Last error:', lastError);
   if (lastError && lastError.name === 'OperationError') {
-    throw new Error(
-      'Decryption failed: Invalid passphrase or corrupted data across all attempted iteration counts.'
+    throw new InvalidPassphraseError(INVALID_PASSPHRASE_MESSAGE);
+  }
+  throw lastError || new InvalidPassphraseError(INVALID_PASSPHRASE_MESSAGE);
+}
+
+/**
+ * Decodes the Base64 text of an encrypted backup into raw bytes.
+ */
+function decodeBackupBytes(encryptedBackup: EncryptedBackup): Uint8Array<ArrayBuffer> {
+  let combinedBytesNumbers: number[];
+  try {
+    combinedBytesNumbers = toArray(encryptedBackup, 'base64');
+  } catch {
+    throw new CorruptBackupError('Decryption failed: Invalid Base64 input.');
+  }
+
+  if (encryptedBackup.length > 0 && combinedBytesNumbers.length === 0) {
+    throw new CorruptBackupError('Decryption failed: Invalid Base64 input (decoded to empty).');
+  }
+
+  return Uint8Array.from(combinedBytesNumbers);
+}
+
+/** Parses an envelope, returning undefined for legacy headerless backups. */
+function parseEnvelopeIfPresent(bytes: Uint8Array<ArrayBuffer>): ParsedEnvelope | undefined {
+  return hasEnvelopeMagic(bytes) ? parseEnvelope(bytes) : undefined;
+}
+
+/**
+ * Decrypts an encrypted backup string back into a backup payload object.
+ * Reads versioned envelopes as well as legacy headerless blobs, including
+ * legacy raw WIF backups.
+ * @param attemptIterations Optional. A specific iteration count, or an array of counts to try in order.
+ *                        Defaults to trying [DEFAULT_PBKDF2_ITERATIONS, LEGACY_PBKDF2_ITERATIONS]
+ *                        for legacy blobs; envelopes record their own count.
+ */
+export async function decryptData(
+  encryptedBackup: EncryptedBackup,
+  passphrase: string,
+  attemptIterations?: number | number[]
+): Promise<DecryptedBackup> {
+  const combinedBytes = decodeBackupBytes(encryptedBackup);
+  // A malformed or future envelope is reported as such rather than retried as a
+  // legacy blob, which would run every PBKDF2 candidate before failing anyway.
+  const envelope = parseEnvelopeIfPresent(combinedBytes);
+  if (!envelope) {
+    return decryptLegacy(combinedBytes, passphrase, attemptIterations);
+  }
+  return decryptEnvelope(envelope, passphrase, attemptIterations);
+}
+
+/**
+ * Encrypts a byte stream (typically serialized backup JSON too large to hold in
+ * memory) into a binary envelope using the 'aes-256-gcm-stream' cipher. Unlike
+ * encryptData the output is raw bytes, not Base64, and the payload is not
+ * parsed, so no `type` or `createdAt` is stamped.
+ * @param options KDF and cost parameters; keyslots and public metadata are not supported.
+ */
+export async function encryptDataStream(
+  plaintext: ReadableStream<Uint8Array>,
+  passphrase: string,
+  options: StreamEncryptOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const salt = globalThis.crypto.getRandomValues(new Uint8Array(SALT_LENGTH_BYTES));
+  const kdf = resolveKdf(options, salt);
+  const key = await deriveEnvelopeKey(passphrase, kdf);
+  const header = encodeEnvelopeHeader({ cipher: 'aes-256-gcm-stream', kdf });
+  const prefix = globalThis.crypto.getRandomValues(new Uint8Array(STREAM_NONCE_PREFIX_LENGTH));
+  const source = createByteQueue(plaintext);
+  let counter = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const head = new Uint8Array(header.bytes.length + prefix.length);
+      head.set(header.bytes, 0);
+      head.set(prefix, header.bytes.length);
+      controller.enqueue(head);
+    },
+    async pull(controller) {
+      // One byte of lookahead tells whether this segment is the last
+      const available = await source.fill(STREAM_SEGMENT_SIZE + 1);
+      const last = available <= STREAM_SEGMENT_SIZE;
+      const segment = source.take(last ? available : STREAM_SEGMENT_SIZE);
+      controller.enqueue(await sealSegment(key, prefix, header.aad, counter++, last, segment));
+      if (last) controller.close();
+    },
+    cancel(reason) {
+      return source.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Decrypts a binary 'aes-256-gcm-stream' envelope back into the plaintext
+ * byte stream. The header is read and the first segment authenticated before
+ * the promise resolves, so a wrong passphrase is reported up front; later
+ * segments are decrypted as the returned stream is read.
+ * @param attemptIterations Optional. Restricts the PBKDF2 iteration counts accepted, as in decryptData.
+ */
+export async function decryptDataStream(
+  ciphertext: ReadableStream<Uint8Array>,
+  passphrase: string,
+  attemptIterations?: number | number[]
+): Promise<ReadableStream<Uint8Array>> {
+  const source = createByteQueue(ciphertext);
+  if (!hasEnvelopeMagic(source.peek(await source.fill(3)))) {
+    throw new UnsupportedFormatError('Decryption failed: Not a streamed backup envelope.');
+  }
+  let headerLength: number | undefined;
+  for (let want = 64; headerLength === undefined; want *= 2) {
+    const available = await source.fill(want);
+    headerLength = envelopeHeaderLength(source.peek(want));
+    if (headerLength === undefined && available < want) {
+      throw new CorruptBackupError('Invalid envelope: header is truncated.');
+    }
+  }
+  await source.fill(headerLength + 1);
+  const { header, aad, iv: prefix } = parseEnvelope(source.peek(headerLength + 1));
+  source.take(headerLength);
+
+  if (header.cipher !== 'aes-256-gcm-stream') {
+    throw new UnsupportedFormatError(
+      'Decryption failed: Backup is not a streamed envelope; use decryptBackup.'
     );
   }
-  throw (
-    lastError ||
-    new Error(
-      'Decryption failed: Invalid passphrase or corrupted data across all attempted iteration counts.'
-    )
+  const { kdf } = header;
+  if (kdf.id === 'ecies-recipients' || kdf.id === 'keyslots') {
+    throw new UnsupportedFormatError(`Unsupported envelope: ${kdf.id} in a streamed envelope.`);
+  }
+  if (!iterationsAllowed(kdf, attemptIterations)) {
+    throw new InvalidPassphraseError(INVALID_PASSPHRASE_MESSAGE);
+  }
+  const key = await deriveEnvelopeKey(passphrase, kdf);
+
+  const segmentLength = STREAM_SEGMENT_SIZE + STREAM_TAG_LENGTH;
+  let counter = 0;
+  const readSegment = async () => {
+    const available = await source.fill(segmentLength + 1);
+    const last = available <= segmentLength;
+    if (available < STREAM_TAG_LENGTH) {
+      throw new CorruptBackupError('Decryption failed: Stream is truncated.');
+    }
+    const segment = source.take(last ? available : segmentLength);
+    return { plaintext: await openSegment(key, prefix, aad, counter++, last, segment), last };
+  };
+
+  let pending = await readSegment();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      controller.enqueue(pending.plaintext);
+      if (pending.last) {
+        controller.close();
+        return;
+      }
+      pending = await readSegment();
+    },
+    cancel(reason) {
+      return source.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Parses a private key given as WIF or 64-character hex.
+ * @throws If the value is neither.
+ */
+export function parsePrivateKey(value: string | PrivateKey): PrivateKey {
+  if (value instanceof PrivateKey) return value;
+  try {
+    return /^[0-9a-fA-F]{64}$/.test(value) ? PrivateKey.fromHex(value) : PrivateKey.fromWif(value);
+  } catch {
+    throw new InvalidOptionsError(
+      'Invalid options: privateKey must be a WIF or 64-character hex private key.'
+    );
+  }
+}
+
+/**
+ * Decrypts a backup encrypted to recipient public keys (see encryptDataForRecipients)
+ * by unwrapping the content key with the matching private key.
+ * @param privateKey The recipient's private key (WIF, hex or PrivateKey).
+ */
+export async function decryptDataWithPrivateKey(
+  encryptedBackup: EncryptedBackup,
+  privateKey: string | PrivateKey
+): Promise<DecryptedBackup> {
+  const envelope = parseEnvelopeIfPresent(decodeBackupBytes(encryptedBackup));
+  const kdf = envelope?.header.kdf;
+  if (!envelope || kdf?.id !== 'ecies-recipients') {
+    throw new UnsupportedFormatError(
+      'Decryption failed: Backup is passphrase-encrypted, not encrypted to recipient public keys.'
+    );
+  }
+
+  const { key, authFailure } = await unlockEnvelope(envelope, parsePrivateKey(privateKey));
+  return openEnvelope(envelope, key, authFailure);
+}
+
+/**
+ * Encrypts `payload` in place of an envelope's payload under the same key, so
+ * the key table is kept as it is: the passphrase KDF parameters and salt,
+ * every keyslot, or every recipient, as well as the public metadata setting.
+ * The current payload is decrypted first, so a wrong secret changes nothing.
+ * @param secret A passphrase that opens the backup, or a recipient's private key.
+ */
+export async function resealData(
+  encryptedBackup: EncryptedBackup,
+  secret: string | { privateKey: string | PrivateKey },
+  payload: DecryptedBackup
+): Promise<EncryptedBackup> {
+  const envelope = parseEnvelopeIfPresent(decodeBackupBytes(encryptedBackup));
+  if (!envelope) {
+    throw new UnsupportedFormatError(
+      'Invalid backup: Legacy headerless backups have no key table to keep; encrypt the payload anew.'
+    );
+  }
+  const { key, authFailure } = await unlockEnvelope(
+    envelope,
+    typeof secret === 'string' ? secret : parsePrivateKey(secret.privateKey)
   );
+  await openEnvelope(envelope, key, authFailure);
+  const { kdf, metadata } = envelope.header;
+  return sealEnvelope(payload, key, kdf, metadata !== undefined);
+}
+
+/**
+ * Adds a keyslot for `newPassphrase`, unlocked with an existing `passphrase`.
+ * Keyslot backups only gain a header entry; the payload ciphertext is unchanged.
+ * Other backups are converted once: the payload is re-encrypted under a random
+ * content key with slots for the current and the new passphrase.
+ * @param options KDF for the new slot (PBKDF2 iteration count or EncryptOptions).
+ */
+export async function addKeyslotData(
+  encryptedBackup: EncryptedBackup,
+  passphrase: string,
+  newPassphrase: string,
+  options?: number | EncryptOptions
+): Promise<EncryptedBackup> {
+  const opts: EncryptOptions =
+    typeof options === 'number' ? { iterations: options } : (options ?? {});
+  const envelope = parseEnvelopeIfPresent(decodeBackupBytes(encryptedBackup));
+  const kdf = envelope?.header.kdf;
+
+  if (!envelope || kdf?.id !== 'keyslots') {
+    const payload = await decryptData(encryptedBackup, passphrase);
+    const contentKey = await generateContentKey();
+    const slots = [
+      await createKeyslot(contentKey.raw, passphrase, encryptOptionsFor(kdf)),
+      await createKeyslot(contentKey.raw, newPassphrase, opts),
+    ];
+    contentKey.raw.fill(0);
+    const publicMetadata = envelope?.header.metadata !== undefined;
+    return sealEnvelope(payload, contentKey.key, { id: 'keyslots', slots }, publicMetadata);
+  }
+
+  if (kdf.slots.length >= 0xff)
+    throw new InvalidOptionsError('Invalid keyslot: At most 255 keyslots are supported.');
+  const { rawContentKey } = await openKeyslot(kdf, passphrase);
+  const added = await createKeyslot(rawContentKey, newPassphrase, opts);
+  rawContentKey.fill(0);
+  const slots = [...kdf.slots, added];
+  return toBase64(Array.from(replaceEnvelopeKdf(envelope, { id: 'keyslots', slots })));
+}
+
+/**
+ * Removes keyslot `index` from a keyslot backup without re-encrypting the payload.
+ * `passphrase` must open one of the backup's keyslots. The last slot cannot be removed.
+ */
+export async function removeKeyslotData(
+  encryptedBackup: EncryptedBackup,
+  passphrase: string,
+  index: number
+): Promise<EncryptedBackup> {
+  const envelope = parseEnvelopeIfPresent(decodeBackupBytes(encryptedBackup));
+  const kdf = envelope?.header.kdf;
+  if (!envelope || kdf?.id !== 'keyslots') {
+    throw new UnsupportedFormatError('Invalid keyslot: Backup does not use keyslots.');
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= kdf.slots.length) {
+    throw new InvalidOptionsError(`Invalid keyslot: Backup has no keyslot ${index}.`);
+  }
+  if (kdf.slots.length === 1)
+    throw new InvalidOptionsError('Invalid keyslot: Cannot remove the only keyslot.');
+
+  const { rawContentKey } = await openKeyslot(kdf, passphrase);
+  rawContentKey.fill(0);
+  const slots = kdf.slots.filter((_, i) => i !== index);
+  return toBase64(Array.from(replaceEnvelopeKdf(envelope, { id: 'keyslots', slots })));
+}
+
+/**
+ * Describes an encrypted backup from its envelope header alone, without the
+ * passphrase. Legacy headerless backups only report their format.
+ */
+export function inspectData(encryptedBackup: EncryptedBackup): BackupInfo {
+  const bytes = decodeBackupBytes(encryptedBackup);
+  if (!hasEnvelopeMagic(bytes)) return { format: 'legacy' };
+
+  const { header } = parseEnvelope(bytes);
+  return {
+    format: 'envelope',
+    version: header.version,
+    cipher: header.cipher,
+    kdf: describeKdf(header.kdf),
+    metadata: header.metadata,
+  };
+}
+
+/** Strips salts and wrapped keys from envelope KDF parameters. */
+function describeKdf(kdf: EnvelopeKdf): BackupKdfInfo {
+  switch (kdf.id) {
+    case 'ecies-recipients':
+      return { id: kdf.id, recipients: kdf.recipients.map((r) => toHex(Array.from(r.publicKey))) };
+    case 'keyslots':
+      return { id: kdf.id, slots: kdf.slots.map((slot) => describePassphraseKdf(slot.kdf)) };
+    default:
+      return describePassphraseKdf(kdf);
+  }
+}
+
+function describePassphraseKdf(kdf: Pbkdf2Params | Argon2idParams): PassphraseKdfInfo {
+  if (kdf.id === 'argon2id') {
+    return { id: kdf.id, memory: kdf.memory, time: kdf.time, parallelism: kdf.parallelism };
+  }
+  return { id: kdf.id, iterations: kdf.iterations };
 }
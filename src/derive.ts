@@ -0,0 +1,194 @@
+/**
+ * Child key derivation from master backups: BIP32 from a legacy backup's xprv,
+ * BRC-42 (Type 42) from a rootPk backup, and the per-identity account backups
+ * bsv-bap derives with them.
+ */
+
+import { PrivateKey, PublicKey } from '@bsv/sdk';
+import {
+  bapIdentityPaths,
+  bapIdentityRecords,
+  bapIdFromAddress,
+  bapPathKey,
+  decryptBapIds,
+  legacyRootKey,
+  type42RootKey,
+} from './bap';
+import { CorruptBackupError, InvalidOptionsError, UnsupportedFormatError } from './errors';
+import { getBackupType, isLegacyBackup, isMasterBackup } from './guards';
+import type {
+  BapAccountBackup,
+  BapMasterBackup,
+  DecryptedBackup,
+  DeriveOptions,
+  WifBackup,
+} from './interfaces';
+
+const WIF_PREFIX = { mainnet: [0x80], testnet: [0xef] } as const;
+
+const BIP32_PATH = /^m(\/\d+'?)*$/;
+
+const MAX_BIP32_INDEX = 0x7fffffff;
+
+function requireMaster(backup: DecryptedBackup): BapMasterBackup {
+  if (isMasterBackup(backup)) return backup;
+  throw new UnsupportedFormatError(
+    `Cannot derive keys from a ${getBackupType(backup)} backup: only master backups hold a root key.`
+  );
+}
+
+function counterpartyKey(rootPk: PrivateKey, counterparty = 'self'): PublicKey {
+  if (counterparty === 'self') return rootPk.toPublicKey();
+  if (counterparty === 'anyone') return new PrivateKey(1).toPublicKey();
+  try {
+    return PublicKey.fromString(counterparty);
+  } catch {
+    throw new InvalidOptionsError(
+      'Invalid derive options: counterparty must be "self", "anyone" or a public key (hex).'
+    );
+  }
+}
+
+/**
+ * Derives a child private key of a master backup: the BIP32 child at `path`
+ * (legacy) or the BRC-42 child for `invoiceNumber` and `counterparty` (Type 42).
+ */
+function deriveKey(backup: BapMasterBackup, options: DeriveOptions): PrivateKey {
+  if (isLegacyBackup(backup)) {
+    if (options.invoiceNumber !== undefined || options.counterparty !== undefined) {
+      throw new InvalidOptionsError(
+        'Invalid derive options: legacy master backups derive by BIP32 path, not invoice number.'
+      );
+    }
+    if (!options.path || !BIP32_PATH.test(options.path)) {
+      throw new InvalidOptionsError(
+        `Invalid derive options: expected a BIP32 path like "m/0'/1", got "${options.path ?? ''}".`
+      );
+    }
+    // The SDK wraps larger indexes around instead of rejecting them
+    if (options.path.match(/\d+/g)?.some((index) => Number(index) > MAX_BIP32_INDEX)) {
+      throw new InvalidOptionsError(
+        `Invalid derive options: BIP32 path indexes must be at most ${MAX_BIP32_INDEX}, got "${options.path}".`
+      );
+    }
+    return legacyRootKey(backup).derive(options.path).privKey;
+  }
+  if (options.path !== undefined) {
+    throw new InvalidOptionsError(
+      'Invalid derive options: Type 42 master backups derive by invoice number, not BIP32 path.'
+    );
+  }
+  if (!options.invoiceNumber) {
+    throw new InvalidOptionsError('Invalid derive options: an invoice number is required.');
+  }
+  const rootPk = type42RootKey(backup);
+  return rootPk.deriveChild(counterpartyKey(rootPk, options.counterparty), options.invoiceNumber);
+}
+
+/**
+ * Derives a child key of a master backup as a WifBackup labelled with its path
+ * or invoice number. Legacy backups take a BIP32 `path` from their xprv root;
+ * Type 42 backups take a BRC-42 `invoiceNumber` and optional `counterparty`.
+ *
+ * @throws UnsupportedFormatError if the backup is not a master backup.
+ * @throws InvalidPayloadError if the backup's xprv or rootPk is malformed.
+ * @throws InvalidOptionsError if the options do not match the backup's derivation scheme.
+ */
+export function deriveFromBackup(backup: DecryptedBackup, options: DeriveOptions): WifBackup {
+  const master = requireMaster(backup);
+  const key = deriveKey(master, options);
+  return {
+    wif: key.toWif([...WIF_PREFIX[options.network ?? 'mainnet']]),
+    label: (isLegacyBackup(master) ? options.path : options.invoiceNumber) as string,
+  };
+}
+
+/** The account backup of the identity at `rootPath`/`currentPath`: its member key and identity key. */
+function accountBackupAt(
+  master: BapMasterBackup,
+  identity: { rootPath: string; currentPath: string; idSeed?: string },
+  label: string,
+  network: 'mainnet' | 'testnet' = 'mainnet'
+): BapAccountBackup {
+  const { rootPath, currentPath, idSeed } = identity;
+  const rootAddress = bapPathKey(master, rootPath, idSeed).toPublicKey().toAddress();
+  return {
+    wif: bapPathKey(master, currentPath, idSeed).toWif([...WIF_PREFIX[network]]),
+    id: bapIdFromAddress(rootAddress),
+    label,
+  };
+}
+
+/**
+ * Derives the account backup of the BAP identity at `index` (counting from 0)
+ * of a master backup, at the paths bsv-bap's `newId()` uses for identities
+ * created without an id seed: `wif` is the identity's member key and `id` its
+ * BAP identity key.
+ *
+ * @throws UnsupportedFormatError if the backup is not a master backup.
+ * @throws InvalidPayloadError if the backup's xprv or rootPk is malformed.
+ * @throws InvalidOptionsError if `index` is not a non-negative integer.
+ */
+export function deriveAccountBackup(
+  backup: DecryptedBackup,
+  index: number,
+  options: Pick<DeriveOptions, 'network'> = {}
+): BapAccountBackup {
+  const master = requireMaster(backup);
+  if (!Number.isInteger(index) || index < 0 || index > MAX_BIP32_INDEX) {
+    throw new InvalidOptionsError(
+      `Invalid identity index ${index}: expected a non-negative integer.`
+    );
+  }
+  return accountBackupAt(
+    master,
+    bapIdentityPaths(master, index),
+    `Identity ${index}`,
+    options.network
+  );
+}
+
+/**
+ * Produces the account backup of one identity stored in a master backup's
+ * `ids`, as bsv-bap exports a member: `wif` is the key at the identity's
+ * current path and `id` its BAP identity key, which must derive from the
+ * master key at the identity's root path.
+ *
+ * @param identityKey The BAP identity key, as listed by listBapIdentities.
+ * @throws UnsupportedFormatError if the backup is not a master backup.
+ * @throws InvalidPayloadError if the backup's xprv or rootPk is malformed.
+ * @throws InvalidOptionsError if `ids` has no identity with that key.
+ * @throws CorruptBackupError if `ids` does not decrypt, or the identity is incomplete
+ *         or does not derive from the master key.
+ */
+export function extractAccountBackup(
+  masterBackup: DecryptedBackup,
+  identityKey: string,
+  options: Pick<DeriveOptions, 'network'> = {}
+): BapAccountBackup {
+  const master = requireMaster(masterBackup);
+  const identity = (bapIdentityRecords(decryptBapIds(master)) ?? []).find(
+    (id) => id.identityKey === identityKey
+  );
+  if (!identity) {
+    throw new InvalidOptionsError(`No BAP identity ${identityKey} in this master backup.`);
+  }
+  const { rootPath, currentPath, name } = identity;
+  const idSeed = typeof identity.idSeed === 'string' ? identity.idSeed : '';
+  if (typeof rootPath !== 'string' || typeof currentPath !== 'string') {
+    throw new CorruptBackupError(`Invalid BAP ids: identity ${identityKey} is incomplete.`);
+  }
+  const label = typeof name === 'string' && name ? name : identityKey;
+  const account = accountBackupAt(
+    master,
+    { rootPath, currentPath, idSeed },
+    label,
+    options.network
+  );
+  if (account.id !== identityKey) {
+    throw new CorruptBackupError(
+      `Invalid BAP ids: identity ${identityKey} does not derive from this master key.`
+    );
+  }
+  return account;
+}
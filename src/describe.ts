@@ -0,0 +1,87 @@
+/**
+ * Public view of a decrypted backup: the public keys and addresses of the keys
+ * it holds and the BAP identities it belongs to, without any secret material,
+ * so a backup can be matched to its wallet without printing its keys.
+ */
+
+import { HD, PrivateKey, type PublicKey } from '@bsv/sdk';
+import { bapIdentityKeys, decryptBapIds } from './bap';
+import { CorruptBackupError, InvalidPayloadError } from './errors';
+import { getBackupType, isAccountBackup, isLegacyBackup, isMasterBackup } from './guards';
+import type { BackupDescription, DecryptedBackup, DescribedKey } from './interfaces';
+
+const WIF_FIELDS = ['wif', 'rootPk', 'payPk', 'ordPk', 'identityPk'] as const;
+
+// Yours Wallet backups record the path each key was derived at
+const PATH_FIELDS: Partial<Record<(typeof WIF_FIELDS)[number], string>> = {
+  payPk: 'payDerivationPath',
+  ordPk: 'ordDerivationPath',
+  identityPk: 'identityDerivationPath',
+};
+
+function describeKey(field: string, publicKey: PublicKey, path?: string): DescribedKey {
+  return {
+    field,
+    ...(path ? { path } : {}),
+    publicKey: publicKey.toString(),
+    addresses: { mainnet: publicKey.toAddress('mainnet'), testnet: publicKey.toAddress('testnet') },
+  };
+}
+
+/**
+ * Describes a decrypted backup without exposing its secrets: the public key and
+ * mainnet/testnet P2PKH addresses of every WIF it holds (wif, rootPk, payPk,
+ * ordPk, identityPk) and of a legacy master's xprv root, the xpub of that xprv,
+ * and BAP identity keys. Master backups' identity keys are read from `ids`,
+ * decrypted with the master key; they are omitted if `ids` cannot be decrypted.
+ * Vault and Yours Wallet ZIP backups hold no readable keys and describe as empty.
+ *
+ * @throws InvalidPayloadError if a key field is not a valid WIF or xprv.
+ */
+export function describeBackup(backup: DecryptedBackup): BackupDescription {
+  const fields = backup as unknown as Record<string, unknown>;
+  const keys: DescribedKey[] = [];
+  for (const field of WIF_FIELDS) {
+    const wif = fields[field];
+    if (typeof wif !== 'string' || !wif) continue;
+    let publicKey: PublicKey;
+    try {
+      publicKey = PrivateKey.fromWif(wif).toPublicKey();
+    } catch {
+      throw new InvalidPayloadError(`Invalid backup: ${field} is not a valid WIF private key.`);
+    }
+    const pathField = PATH_FIELDS[field];
+    const path = pathField ? fields[pathField] : undefined;
+    keys.push(describeKey(field, publicKey, typeof path === 'string' ? path : undefined));
+  }
+
+  const description: BackupDescription = {
+    type: getBackupType(backup),
+    ...(backup.label ? { label: backup.label } : {}),
+    ...(backup.createdAt ? { createdAt: backup.createdAt } : {}),
+    keys,
+  };
+
+  if (isLegacyBackup(backup)) {
+    let hd: HD;
+    try {
+      hd = HD.fromString(backup.xprv);
+    } catch {
+      throw new InvalidPayloadError('Invalid backup: xprv is not a valid extended private key.');
+    }
+    keys.push(describeKey('xprv', hd.pubKey));
+    description.xpub = hd.toPublic().toString();
+  }
+
+  if (isAccountBackup(backup)) {
+    description.identityKeys = [backup.id];
+  } else if (isMasterBackup(backup)) {
+    try {
+      const identityKeys = bapIdentityKeys(decryptBapIds(backup));
+      if (identityKeys) description.identityKeys = identityKeys;
+    } catch (error) {
+      if (!(error instanceof CorruptBackupError)) throw error;
+    }
+  }
+  return description;
+}
@@ -0,0 +1,470 @@
+/**
+ * Binary layout of the versioned .bep envelope.
+ *
+ * Legacy backups are a bare Base64 blob of salt ‖ IV ‖ ciphertext, which says
+ * nothing about how they were produced. The envelope prefixes the ciphertext
+ * with a self-describing header so decryption never has to guess:
+ *
+ *   magic      3 bytes   "BEP"
+ *   version    u8        ENVELOPE_VERSION
+ *   flags      u8        bit 0: public metadata present; bit 1: payload is msgpack
+ *                        rather than UTF-8 JSON (see ./payload); other bits must be 0
+ *   cipher     u8        cipher id (1 = AES-256-GCM, 2 = AES-256-GCM STREAM)
+ *   metaLength u32 BE    length of the metadata JSON (only if flag bit 0 is set)
+ *   metadata   bytes     UTF-8 JSON BackupMetadata, readable without the passphrase
+ *   kdf        u8        key derivation id (1 = PBKDF2-SHA256, 2 = Argon2id,
+ *                        3 = content key wrapped to ECIES recipients,
+ *                        4 = content key wrapped by passphrase keyslots)
+ *   kdfLength  u16 BE    length of the KDF parameter block
+ *   kdfParams  bytes     KDF-specific parameters (salt, cost, wrapped keys)
+ *   iv         bytes     cipher IV (12 bytes for AES-GCM, a 7-byte nonce prefix for STREAM)
+ *   ciphertext bytes     encrypted payload incl. auth tag (STREAM: a sequence of
+ *                        segments, see ./stream)
+ *
+ * Everything before the kdf id is passed to the cipher as additional
+ * authenticated data, so the cleartext metadata cannot be altered without
+ * failing decryption. KDF parameters are not: altering them can only yield a
+ * wrong key, which the authentication tag already rejects. This also lets the
+ * recipient and keyslot tables be rewritten without re-encrypting the payload.
+ */
+
+import { CorruptBackupError, InvalidOptionsError, UnsupportedFormatError } from './errors';
+import type { BackupMetadata } from './interfaces';
+import type { PayloadEncoding } from './payload';
+import { STREAM_NONCE_PREFIX_LENGTH } from './stream';
+
+const MAGIC = [0x42, 0x45, 0x50]; // "BEP"
+
+export const ENVELOPE_VERSION = 1;
+
+const FLAG_METADATA = 0x01;
+const FLAG_MSGPACK_PAYLOAD = 0x02;
+const KNOWN_FLAGS = FLAG_METADATA | FLAG_MSGPACK_PAYLOAD;
+
+const CIPHER_IDS = { 'aes-256-gcm': 1, 'aes-256-gcm-stream': 2 } as const;
+const KDF_IDS = {
+  'pbkdf2-sha256': 1,
+  argon2id: 2,
+  'ecies-recipients': 3,
+  keyslots: 4,
+} as const;
+
+const IV_LENGTH_BYTES: Record<EnvelopeCipher, number> = {
+  'aes-256-gcm': 12,
+  'aes-256-gcm-stream': STREAM_NONCE_PREFIX_LENGTH,
+};
+
+export type EnvelopeCipher = keyof typeof CIPHER_IDS;
+
+/** PBKDF2-SHA256 parameters recorded in the envelope header. */
+export interface Pbkdf2Params {
+  id: 'pbkdf2-sha256';
+  iterations: number;
+  salt: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Bounds on PBKDF2 iterations. The iteration count is read before the header
+ * can be authenticated, so a crafted file could otherwise stall decryption.
+ */
+export const MIN_PBKDF2_ITERATIONS = 1000;
+export const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+/**
+ * Upper bounds on Argon2id costs (memory in KiB). The KDF parameters are read
+ * before the header can be authenticated, so a crafted file could otherwise
+ * make decryption allocate gigabytes or run for minutes.
+ */
+export const MAX_ARGON2ID_PARAMS = { memory: 1024 * 1024, time: 64, parallelism: 16 } as const;
+
+/** Argon2id cost parameters; memory is in KiB. */
+export interface Argon2idParams {
+  id: 'argon2id';
+  memory: number;
+  time: number;
+  parallelism: number;
+  salt: Uint8Array<ArrayBuffer>;
+}
+
+/** A random content key wrapped (Electrum ECIES) to one recipient public key. */
+export interface WrappedRecipientKey {
+  publicKey: Uint8Array<ArrayBuffer>; // Compressed secp256k1 public key (33 bytes)
+  wrappedKey: Uint8Array<ArrayBuffer>;
+}
+
+/** Public-key mode: no passphrase, the content key is wrapped to each recipient. */
+export interface RecipientsParams {
+  id: 'ecies-recipients';
+  recipients: WrappedRecipientKey[];
+}
+
+/** A content key sealed (AES-256-GCM) under one passphrase-derived key. */
+export interface Keyslot {
+  kdf: Pbkdf2Params | Argon2idParams;
+  iv: Uint8Array<ArrayBuffer>;
+  wrappedKey: Uint8Array<ArrayBuffer>; // Content key ‖ auth tag
+}
+
+/** Keyslot mode: the content key is wrapped once per passphrase. */
+export interface KeyslotsParams {
+  id: 'keyslots';
+  slots: Keyslot[];
+}
+
+export type EnvelopeKdf = Pbkdf2Params | Argon2idParams | RecipientsParams | KeyslotsParams;
+
+export interface EnvelopeHeader {
+  version: number;
+  cipher: EnvelopeCipher;
+  kdf: EnvelopeKdf;
+  metadata?: BackupMetadata; // Authenticated cleartext metadata
+  encoding?: PayloadEncoding; // Payload serialization; 'json' when absent
+}
+
+/** A decoded envelope, split into the pieces the cipher needs. */
+export interface ParsedEnvelope {
+  header: EnvelopeHeader;
+  aad: Uint8Array<ArrayBuffer>; // Authenticated header bytes
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+/** Returns the IV length, in bytes, used by a cipher. */
+export function ivLengthFor(cipher: EnvelopeCipher): number {
+  return IV_LENGTH_BYTES[cipher];
+}
+
+/** True if the bytes start with the envelope magic. Legacy blobs start with a random salt. */
+export function hasEnvelopeMagic(bytes: Uint8Array): boolean {
+  return bytes.length >= MAGIC.length && MAGIC.every((b, i) => bytes[i] === b);
+}
+
+function encodeKdfParams(kdf: EnvelopeKdf): Uint8Array {
+  if (kdf.id === 'keyslots') {
+    // count u8, then per slot: kdf section ‖ ivLength u8 ‖ iv ‖ wrappedLength u16 ‖ wrappedKey
+    if (kdf.slots.length === 0 || kdf.slots.length > 0xff) {
+      throw new InvalidOptionsError('Invalid envelope: between 1 and 255 keyslots are supported.');
+    }
+    const parts = kdf.slots.map((slot) => {
+      const section = encodeKdfSection(slot.kdf);
+      const part = new Uint8Array(section.length + 3 + slot.iv.length + slot.wrappedKey.length);
+      part.set(section, 0);
+      part[section.length] = slot.iv.length;
+      part.set(slot.iv, section.length + 1);
+      const offset = section.length + 1 + slot.iv.length;
+      new DataView(part.buffer).setUint16(offset, slot.wrappedKey.length);
+      part.set(slot.wrappedKey, offset + 2);
+      return part;
+    });
+    const params = new Uint8Array(parts.reduce((n, part) => n + part.length, 1));
+    params[0] = parts.length;
+    let offset = 1;
+    for (const part of parts) {
+      params.set(part, offset);
+      offset += part.length;
+    }
+    return params;
+  }
+  if (kdf.id === 'ecies-recipients') {
+    // count u8, then per recipient: publicKey (33) ‖ wrappedLength u16 ‖ wrappedKey
+    if (kdf.recipients.length === 0 || kdf.recipients.length > 0xff) {
+      throw new InvalidOptionsError(
+        'Invalid envelope: between 1 and 255 recipients are supported.'
+      );
+    }
+    const size = kdf.recipients.reduce((n, r) => n + 35 + r.wrappedKey.length, 1);
+    const params = new Uint8Array(size);
+    const view = new DataView(params.buffer);
+    params[0] = kdf.recipients.length;
+    let offset = 1;
+    for (const { publicKey, wrappedKey } of kdf.recipients) {
+      params.set(publicKey, offset);
+      view.setUint16(offset + 33, wrappedKey.length);
+      params.set(wrappedKey, offset + 35);
+      offset += 35 + wrappedKey.length;
+    }
+    return params;
+  }
+  if (kdf.id === 'argon2id') {
+    const problem = argon2idParamsProblem(kdf);
+    if (problem) throw new InvalidOptionsError(`Invalid envelope: Argon2id ${problem}.`);
+    // memory u32 ‖ time u32 ‖ parallelism u8 ‖ salt
+    const params = new Uint8Array(9 + kdf.salt.length);
+    const view = new DataView(params.buffer);
+    view.setUint32(0, kdf.memory);
+    view.setUint32(4, kdf.time);
+    params[8] = kdf.parallelism;
+    params.set(kdf.salt, 9);
+    return params;
+  }
+  const problem = pbkdf2ParamsProblem(kdf);
+  if (problem) throw new InvalidOptionsError(`Invalid envelope: PBKDF2 ${problem}.`);
+  // iterations u32 ‖ salt
+  const params = new Uint8Array(4 + kdf.salt.length);
+  new DataView(params.buffer).setUint32(0, kdf.iterations);
+  params.set(kdf.salt, 4);
+  return params;
+}
+
+/** Serializes a KDF as id u8 ‖ length u16 ‖ parameters. */
+function encodeKdfSection(kdf: EnvelopeKdf): Uint8Array {
+  const params = encodeKdfParams(kdf);
+  if (params.length > 0xffff)
+    throw new InvalidOptionsError('Invalid envelope: KDF parameters too long.');
+  const section = new Uint8Array(3 + params.length);
+  section[0] = KDF_IDS[kdf.id];
+  new DataView(section.buffer).setUint16(1, params.length);
+  section.set(params, 3);
+  return section;
+}
+
+/**
+ * Reads a KDF section at `offset`.
+ * @returns The KDF and the offset just past it.
+ */
+function decodeKdfSection(
+  bytes: Uint8Array<ArrayBuffer>,
+  offset: number
+): { kdf: EnvelopeKdf; end: number } {
+  if (offset + 3 > bytes.length)
+    throw new CorruptBackupError('Invalid envelope: header is truncated.');
+  const kdfId = bytes[offset];
+  const length = new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset + 1);
+  const end = offset + 3 + length;
+  if (end > bytes.length) throw new CorruptBackupError('Invalid envelope: header is truncated.');
+  return { kdf: decodeKdfParams(kdfId, bytes.slice(offset + 3, end)), end };
+}
+
+function decodeKeyslots(params: Uint8Array<ArrayBuffer>): KeyslotsParams {
+  const slots: Keyslot[] = [];
+  let offset = 1;
+  for (let i = 0; i < (params[0] ?? 0); i++) {
+    const section = decodeKdfSection(params, offset);
+    if (section.kdf.id !== 'pbkdf2-sha256' && section.kdf.id !== 'argon2id') {
+      throw new CorruptBackupError('Invalid envelope: keyslots must use a passphrase KDF.');
+    }
+    offset = section.end;
+    const ivLength = params[offset] ?? 0;
+    if (offset + 1 + ivLength + 2 > params.length) {
+      throw new CorruptBackupError('Invalid envelope: truncated keyslot table.');
+    }
+    const iv = params.slice(offset + 1, offset + 1 + ivLength);
+    offset += 1 + ivLength;
+    const wrappedLength = new DataView(params.buffer).getUint16(offset);
+    if (offset + 2 + wrappedLength > params.length) {
+      throw new CorruptBackupError('Invalid envelope: truncated keyslot table.');
+    }
+    slots.push({
+      kdf: section.kdf,
+      iv,
+      wrappedKey: params.slice(offset + 2, offset + 2 + wrappedLength),
+    });
+    offset += 2 + wrappedLength;
+  }
+  if (slots.length === 0) throw new CorruptBackupError('Invalid envelope: no keyslots.');
+  return { id: 'keyslots', slots };
+}
+
+/** Describes why a PBKDF2 iteration count is out of bounds, or returns undefined if it is usable. */
+function pbkdf2ParamsProblem({ iterations }: Pbkdf2Params): string | undefined {
+  if (iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+    return `iterations must be between ${MIN_PBKDF2_ITERATIONS} and ${MAX_PBKDF2_ITERATIONS}`;
+  }
+  return undefined;
+}
+
+/** Describes why Argon2id costs are out of bounds, or returns undefined if they are usable. */
+function argon2idParamsProblem({ memory, time, parallelism }: Argon2idParams): string | undefined {
+  if (parallelism < 1 || parallelism > MAX_ARGON2ID_PARAMS.parallelism) {
+    return `parallelism must be between 1 and ${MAX_ARGON2ID_PARAMS.parallelism}`;
+  }
+  if (memory < 8 * parallelism || memory > MAX_ARGON2ID_PARAMS.memory) {
+    return `memory must be between ${8 * parallelism} and ${MAX_ARGON2ID_PARAMS.memory} KiB`;
+  }
+  if (time < 1 || time > MAX_ARGON2ID_PARAMS.time) {
+    return `time must be between 1 and ${MAX_ARGON2ID_PARAMS.time}`;
+  }
+  return undefined;
+}
+
+function decodeKdfParams(kdfId: number, params: Uint8Array<ArrayBuffer>): EnvelopeKdf {
+  const view = new DataView(params.buffer, params.byteOffset, params.byteLength);
+  if (kdfId === KDF_IDS['pbkdf2-sha256']) {
+    if (params.length <= 4)
+      throw new CorruptBackupError('Invalid envelope: truncated PBKDF2 parameters.');
+    const kdf: Pbkdf2Params = {
+      id: 'pbkdf2-sha256',
+      iterations: view.getUint32(0),
+      salt: params.slice(4),
+    };
+    const problem = pbkdf2ParamsProblem(kdf);
+    if (problem) throw new CorruptBackupError(`Invalid envelope: PBKDF2 ${problem}.`);
+    return kdf;
+  }
+  if (kdfId === KDF_IDS.argon2id) {
+    if (params.length <= 9)
+      throw new CorruptBackupError('Invalid envelope: truncated Argon2id parameters.');
+    const kdf: Argon2idParams = {
+      id: 'argon2id',
+      memory: view.getUint32(0),
+      time: view.getUint32(4),
+      parallelism: params[8],
+      salt: params.slice(9),
+    };
+    const problem = argon2idParamsProblem(kdf);
+    if (problem) throw new CorruptBackupError(`Invalid envelope: Argon2id ${problem}.`);
+    return kdf;
+  }
+  if (kdfId === KDF_IDS['ecies-recipients']) {
+    const recipients: WrappedRecipientKey[] = [];
+    let offset = 1;
+    for (let i = 0; i < (params[0] ?? 0); i++) {
+      if (offset + 35 > params.length) {
+        throw new CorruptBackupError('Invalid envelope: truncated recipient table.');
+      }
+      const wrappedLength = view.getUint16(offset + 33);
+      if (offset + 35 + wrappedLength > params.length) {
+        throw new CorruptBackupError('Invalid envelope: truncated recipient table.');
+      }
+      recipients.push({
+        publicKey: params.slice(offset, offset + 33),
+        wrappedKey: params.slice(offset + 35, offset + 35 + wrappedLength),
+      });
+      offset += 35 + wrappedLength;
+    }
+    if (recipients.length === 0) throw new CorruptBackupError('Invalid envelope: no recipients.');
+    return { id: 'ecies-recipients', recipients };
+  }
+  if (kdfId === KDF_IDS.keyslots) return decodeKeyslots(params);
+  throw new UnsupportedFormatError(`Unsupported envelope: unknown KDF id ${kdfId}.`);
+}
+
+/**
+ * Serializes the envelope header. Returns the full header (to prepend to the
+ * IV and ciphertext) and the prefix of it that is authenticated as AAD.
+ */
+export function encodeEnvelopeHeader(header: Omit<EnvelopeHeader, 'version'>): {
+  bytes: Uint8Array<ArrayBuffer>;
+  aad: Uint8Array<ArrayBuffer>;
+} {
+  const metadata = header.metadata
+    ? new TextEncoder().encode(JSON.stringify(header.metadata))
+    : new Uint8Array(0);
+  const flags =
+    (header.metadata ? FLAG_METADATA : 0) |
+    (header.encoding === 'msgpack' ? FLAG_MSGPACK_PAYLOAD : 0);
+  const prefix = [...MAGIC, ENVELOPE_VERSION, flags, CIPHER_IDS[header.cipher]];
+
+  const aad = new Uint8Array(prefix.length + (header.metadata ? 4 + metadata.length : 0));
+  aad.set(prefix, 0);
+  if (header.metadata) {
+    new DataView(aad.buffer).setUint32(prefix.length, metadata.length);
+    aad.set(metadata, prefix.length + 4);
+  }
+
+  const kdfSection = encodeKdfSection(header.kdf);
+  const bytes = new Uint8Array(aad.length + kdfSection.length);
+  bytes.set(aad, 0);
+  bytes.set(kdfSection, aad.length);
+  return { bytes, aad };
+}
+
+/**
+ * Re-serializes a parsed envelope with different KDF parameters, keeping the
+ * authenticated header bytes, IV and ciphertext exactly as they were.
+ */
+export function replaceEnvelopeKdf(
+  envelope: ParsedEnvelope,
+  kdf: EnvelopeKdf
+): Uint8Array<ArrayBuffer> {
+  const kdfSection = encodeKdfSection(kdf);
+  const { aad, iv, ciphertext } = envelope;
+  const bytes = new Uint8Array(aad.length + kdfSection.length + iv.length + ciphertext.length);
+  bytes.set(aad, 0);
+  bytes.set(kdfSection, aad.length);
+  bytes.set(iv, aad.length + kdfSection.length);
+  bytes.set(ciphertext, aad.length + kdfSection.length + iv.length);
+  return bytes;
+}
+
+/**
+ * Returns the length of the envelope header including the IV, or undefined if
+ * `bytes` is too short to tell. Lets stream readers buffer exactly the header
+ * before calling parseEnvelope. An unknown cipher counts as having no IV, so
+ * parseEnvelope reports it.
+ */
+export function envelopeHeaderLength(bytes: Uint8Array): number | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = MAGIC.length + 3;
+  if (bytes.length < offset) return undefined;
+  const cipher = (Object.keys(CIPHER_IDS) as EnvelopeCipher[]).find(
+    (name) => CIPHER_IDS[name] === bytes[MAGIC.length + 2]
+  );
+  if (bytes[MAGIC.length + 1] & FLAG_METADATA) {
+    if (bytes.length < offset + 4) return undefined;
+    offset += 4 + view.getUint32(offset);
+  }
+  if (bytes.length < offset + 3) return undefined;
+  offset += 3 + view.getUint16(offset + 1);
+  offset += cipher ? ivLengthFor(cipher) : 0;
+  return bytes.length < offset ? undefined : offset;
+}
+
+/**
+ * Parses an envelope. Callers should check `hasEnvelopeMagic` first.
+ * @throws If the header is truncated or names an unknown version, cipher or KDF.
+ */
+export function parseEnvelope(bytes: Uint8Array<ArrayBuffer>): ParsedEnvelope {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = MAGIC.length;
+
+  const need = (n: number) => {
+    if (offset + n > bytes.length)
+      throw new CorruptBackupError('Invalid envelope: header is truncated.');
+  };
+
+  need(3);
+  const version = bytes[offset++];
+  if (version !== ENVELOPE_VERSION) {
+    throw new UnsupportedFormatError(`Unsupported envelope: version ${version}.`);
+  }
+  const flags = bytes[offset++];
+  if ((flags & ~KNOWN_FLAGS) !== 0) {
+    throw new UnsupportedFormatError(
+      `Unsupported envelope: unknown flags 0x${flags.toString(16)}.`
+    );
+  }
+
+  const cipherId = bytes[offset++];
+  const cipher = (Object.keys(CIPHER_IDS) as EnvelopeCipher[]).find(
+    (name) => CIPHER_IDS[name] === cipherId
+  );
+  if (!cipher)
+    throw new UnsupportedFormatError(`Unsupported envelope: unknown cipher id ${cipherId}.`);
+
+  let metadata: BackupMetadata | undefined;
+  if (flags & FLAG_METADATA) {
+    need(4);
+    const metaLength = view.getUint32(offset);
+    offset += 4;
+    need(metaLength);
+    try {
+      metadata = JSON.parse(new TextDecoder().decode(bytes.subarray(offset, offset + metaLength)));
+    } catch {
+      throw new CorruptBackupError('Invalid envelope: metadata is not valid JSON.');
+    }
+    offset += metaLength;
+  }
+  const aad = bytes.slice(0, offset);
+
+  const { kdf, end } = decodeKdfSection(bytes, offset);
+  offset = end;
+
+  const ivLength = ivLengthFor(cipher);
+  need(ivLength + 1);
+  const iv = bytes.slice(offset, offset + ivLength);
+  const ciphertext = bytes.slice(offset + ivLength);
+
+  const encoding: PayloadEncoding = flags & FLAG_MSGPACK_PAYLOAD ? 'msgpack' : 'json';
+  return { header: { version, cipher, kdf, metadata, encoding }, aad, iv, ciphertext };
+}
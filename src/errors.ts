@@ -0,0 +1,67 @@
+/**
+ * Error classes thrown by the library. Each carries a stable `code`, so callers
+ * can tell a wrong passphrase from a damaged file without matching messages.
+ */
+
+import type { KeyValidationError } from './interfaces';
+
+/** Machine-readable error codes, one per error class. */
+export type BackupErrorCode =
+  | 'INVALID_PASSPHRASE'
+  | 'CORRUPT_BACKUP'
+  | 'UNSUPPORTED_FORMAT'
+  | 'INVALID_PAYLOAD'
+  | 'INVALID_OPTIONS';
+
+/** Base class of every error the library throws deliberately. */
+export class BackupError extends Error {
+  readonly code: BackupErrorCode;
+
+  constructor(code: BackupErrorCode, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+/**
+ * The passphrase or private key is missing, too weak, or does not open the
+ * backup. AES-GCM cannot distinguish a wrong key from modified ciphertext, so
+ * a failed authentication check is reported as this error.
+ */
+export class InvalidPassphraseError extends BackupError {
+  constructor(message: string) {
+    super('INVALID_PASSPHRASE', message);
+  }
+}
+
+/** The backup, share or ZIP is not valid Base64, is truncated, or is otherwise damaged. */
+export class CorruptBackupError extends BackupError {
+  constructor(message: string) {
+    super('CORRUPT_BACKUP', message);
+  }
+}
+
+/** The input uses a version, algorithm or mode this build cannot handle. */
+export class UnsupportedFormatError extends BackupError {
+  constructor(message: string) {
+    super('UNSUPPORTED_FORMAT', message);
+  }
+}
+
+/** The payload is not a recognized backup, or its key material failed validation. */
+export class InvalidPayloadError extends BackupError {
+  readonly issues: KeyValidationError[]; // Per-field key validation failures, if any
+
+  constructor(message: string, issues: KeyValidationError[] = []) {
+    super('INVALID_PAYLOAD', message);
+    this.issues = issues;
+  }
+}
+
+/** An encryption, split or keyslot option is out of range or malformed. */
+export class InvalidOptionsError extends BackupError {
+  constructor(message: string) {
+    super('INVALID_OPTIONS', message);
+  }
+}
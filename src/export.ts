@@ -0,0 +1,129 @@
+/**
+ * Writers that turn decrypted backups into files other wallets import; the
+ * reverse of ./import.
+ *
+ *   yours     Yours Wallet JSON { mnemonic, payPk, payDerivationPath, ordPk, ... }
+ *   1sat      1Sat Ordinals / ord-wallet JSON { ordPk, payPk, identityPk }
+ *   wif       Plain text, one WIF per line followed by the field it came from
+ *   mnemonic  The BIP39 mnemonic on a single line
+ *
+ * A legacy BAP master backup has no pay or ordinals keys of its own; they are
+ * derived from its mnemonic at the Yours Wallet paths, as Yours Wallet does
+ * when the mnemonic is restored there. Backups that lack what a format needs
+ * are rejected rather than exported partially.
+ */
+
+import { HD } from '@bsv/sdk';
+import { InvalidOptionsError, UnsupportedFormatError } from './errors';
+import {
+  getBackupType,
+  isLegacyBackup,
+  isOneSatBackup,
+  isYoursWalletBackup,
+  isYoursWalletZipBackup,
+} from './guards';
+import type { DecryptedBackup, ExportFormat, ExportOptions, YoursWalletBackup } from './interfaces';
+import { deriveYoursWalletKeys } from './yours-wallet';
+
+type Network = 'mainnet' | 'testnet';
+
+type Writer = (backup: DecryptedBackup, network: Network) => string;
+
+const WIF_FIELDS = ['wif', 'rootPk', 'payPk', 'ordPk', 'identityPk'] as const;
+
+const YOURS_FIELDS = [
+  'mnemonic',
+  'payPk',
+  'payDerivationPath',
+  'ordPk',
+  'ordDerivationPath',
+  'identityPk',
+  'identityDerivationPath',
+] as const;
+
+function unsupported(backup: DecryptedBackup, to: ExportFormat, reason: string): never {
+  throw new UnsupportedFormatError(
+    `Cannot export a ${getBackupType(backup)} backup as ${to}: ${reason}.`
+  );
+}
+
+/** The Yours Wallet keys a backup holds, or can derive losslessly. */
+function yoursKeysOf(backup: DecryptedBackup, network: Network): YoursWalletBackup | undefined {
+  if (isYoursWalletZipBackup(backup)) return undefined;
+  if (isYoursWalletBackup(backup)) return backup;
+  if (isOneSatBackup(backup)) {
+    return { payPk: backup.payPk, ordPk: backup.ordPk, identityPk: backup.identityPk };
+  }
+  if (isLegacyBackup(backup)) return deriveYoursWalletKeys(backup.mnemonic, network);
+  return undefined;
+}
+
+const writeYours: Writer = (backup, network) => {
+  const keys = yoursKeysOf(backup, network);
+  if (!keys) unsupported(backup, 'yours', 'it has no pay and ordinals keys or mnemonic');
+  const exported: Record<string, string> = {};
+  for (const field of YOURS_FIELDS) {
+    if (keys[field]) exported[field] = keys[field];
+  }
+  return `${JSON.stringify(exported, null, 2)}\n`;
+};
+
+const writeOneSat: Writer = (backup, network) => {
+  const keys = yoursKeysOf(backup, network);
+  if (!keys) unsupported(backup, '1sat', 'it has no pay and ordinals keys or mnemonic');
+  if (!keys.identityPk) unsupported(backup, '1sat', 'it has no identity key');
+  const { ordPk, payPk, identityPk } = keys;
+  return `${JSON.stringify({ ordPk, payPk, identityPk }, null, 2)}\n`;
+};
+
+const writeWifList: Writer = (backup, network) => {
+  const fields = backup as unknown as Record<string, unknown>;
+  const lines: string[] = [];
+  for (const field of WIF_FIELDS) {
+    const wif = fields[field];
+    if (typeof wif === 'string' && wif) lines.push(`${wif} ${field}`);
+  }
+  if (isLegacyBackup(backup)) {
+    const prefix = network === 'testnet' ? [0xef] : [0x80];
+    lines.push(`${HD.fromString(backup.xprv).privKey.toWif(prefix)} xprv`);
+  }
+  if (lines.length === 0) unsupported(backup, 'wif', 'it holds no private keys');
+  if (backup.label) lines.unshift(`# ${backup.label}`);
+  return `${lines.join('\n')}\n`;
+};
+
+const writeMnemonic: Writer = (backup) => {
+  const { mnemonic } = backup as { mnemonic?: unknown };
+  if (typeof mnemonic !== 'string' || !mnemonic) {
+    unsupported(backup, 'mnemonic', 'it has no mnemonic');
+  }
+  return `${mnemonic}\n`;
+};
+
+const WRITERS: Record<ExportFormat, Writer> = {
+  yours: writeYours,
+  '1sat': writeOneSat,
+  wif: writeWifList,
+  mnemonic: writeMnemonic,
+};
+
+/** Formats accepted by exportBackup. */
+export const EXPORT_FORMATS = Object.keys(WRITERS) as ExportFormat[];
+
+/**
+ * Writes a decrypted backup in a format another wallet can import.
+ *
+ * @param backup A decrypted backup, e.g. a OneSatBackup, YoursWalletBackup or BapMasterBackup.
+ * @param options `to` selects the format; `network` the network of derived WIFs.
+ * @returns The file contents (JSON or text, newline-terminated).
+ * @throws InvalidOptionsError if the format is unknown.
+ * @throws UnsupportedFormatError if the backup lacks the keys the format needs.
+ */
+export function exportBackup(backup: DecryptedBackup, options: ExportOptions): string {
+  if (!EXPORT_FORMATS.includes(options.to)) {
+    throw new InvalidOptionsError(
+      `Invalid export options: unknown format "${options.to}". Use ${EXPORT_FORMATS.join(', ')}.`
+    );
+  }
+  return WRITERS[options.to](backup, options.network ?? 'mainnet');
+}
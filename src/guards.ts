@@ -2,6 +2,7 @@ import type {
   BapAccountBackup,
   BapMasterBackup,
   BapMasterBackupLegacy,
+  BundleBackup,
   DecryptedBackup,
   MasterBackupType42,
   OneSatBackup,
@@ -11,10 +12,43 @@ import type {
   YoursWalletZipBackup,
 } from './interfaces';
 
+const BACKUP_TYPE_NAMES = [
+  'Legacy',
+  'Type42',
+  'Account',
+  'WIF',
+  'OneSat',
+  'Vault',
+  'YoursWallet',
+  'YoursWalletZip',
+  'Bundle',
+] as const;
+
+/** A backup type that can be recorded in a payload's `type` field. */
+export type DeclaredBackupType = (typeof BACKUP_TYPE_NAMES)[number];
+
+/**
+ * Checks if a value is a known backup type discriminator.
+ */
+export function isBackupTypeName(value: unknown): value is DeclaredBackupType {
+  return BACKUP_TYPE_NAMES.includes(value as DeclaredBackupType);
+}
+
+/**
+ * Returns the backup's explicit `type` discriminator, if it has a known one.
+ * Guards prefer it over key-presence heuristics, which remain for older files.
+ */
+function declaredType(backup: DecryptedBackup): DeclaredBackupType | undefined {
+  const { type } = backup as { type?: unknown };
+  return isBackupTypeName(type) ? type : undefined;
+}
+
 /**
  * Type guard: checks if the backup is a legacy BAP master backup (xprv + mnemonic).
  */
 export function isLegacyBackup(backup: DecryptedBackup): backup is BapMasterBackupLegacy {
+  const declared = declaredType(backup);
+  if (declared) return declared === 'Legacy';
   return 'xprv' in backup && 'mnemonic' in backup && 'ids' in backup;
 }
 
@@ -22,6 +56,8 @@ export function isLegacyBackup(backup: DecryptedBackup): backup is BapMasterBack
  * Type guard: checks if the backup is a Type 42 BAP master backup (rootPk).
  */
 export function isType42Backup(backup: DecryptedBackup): backup is MasterBackupType42 {
+  const declared = declaredType(backup);
+  if (declared) return declared === 'Type42';
   return 'rootPk' in backup && 'ids' in backup && !('xprv' in backup);
 }
 
@@ -36,6 +72,8 @@ export function isMasterBackup(backup: DecryptedBackup): backup is BapMasterBack
  * Type guard: checks if the backup is a BAP account backup (wif + id).
  */
 export function isAccountBackup(backup: DecryptedBackup): backup is BapAccountBackup {
+  const declared = declaredType(backup);
+  if (declared) return declared === 'Account';
   return 'wif' in backup && 'id' in backup && !('xprv' in backup) && !('rootPk' in backup);
 }
 
@@ -43,6 +81,8 @@ export function isAccountBackup(backup: DecryptedBackup): backup is BapAccountBa
  * Type guard: checks if the backup is a bare WIF backup (wif only, no id/xprv/rootPk).
  */
 export function isWifBackup(backup: DecryptedBackup): backup is WifBackup {
+  const declared = declaredType(backup);
+  if (declared) return declared === 'WIF';
   return 'wif' in backup && !('id' in backup) && !('xprv' in backup) && !('rootPk' in backup);
 }
 
@@ -50,6 +90,8 @@ export function isWifBackup(backup: DecryptedBackup): backup is WifBackup {
  * Type guard: checks if the backup is a 1Sat Ordinals backup.
  */
 export function isOneSatBackup(backup: DecryptedBackup): backup is OneSatBackup {
+  const declared = declaredType(backup);
+  if (declared) return declared === 'OneSat';
   return (
     'ordPk' in backup &&
     'payPk' in backup &&
@@ -63,6 +105,8 @@ export function isOneSatBackup(backup: DecryptedBackup): backup is OneSatBackup
  * Type guard: checks if the backup is an encrypted vault backup.
  */
 export function isVaultBackup(backup: DecryptedBackup): backup is VaultBackup {
+  const declared = declaredType(backup);
+  if (declared) return declared === 'Vault';
   return 'encryptedVault' in backup;
 }
 
@@ -70,6 +114,8 @@ export function isVaultBackup(backup: DecryptedBackup): backup is VaultBackup {
  * Type guard: checks if the backup is a Yours Wallet JSON backup.
  */
 export function isYoursWalletBackup(backup: DecryptedBackup): backup is YoursWalletBackup {
+  const declared = declaredType(backup);
+  if (declared) return declared === 'YoursWallet';
   return (
     'payPk' in backup &&
     'ordPk' in backup &&
@@ -82,6 +128,8 @@ export function isYoursWalletBackup(backup: DecryptedBackup): backup is YoursWal
  * The chromeStorage object is the discriminator; manifest/settings/chunks are optional.
  */
 export function isYoursWalletZipBackup(backup: DecryptedBackup): backup is YoursWalletZipBackup {
+  const declared = declaredType(backup);
+  if (declared) return declared === 'YoursWalletZip';
   return (
     'chromeStorage' in backup &&
     typeof (backup as { chromeStorage: unknown }).chromeStorage === 'object' &&
@@ -89,6 +137,15 @@ export function isYoursWalletZipBackup(backup: DecryptedBackup): backup is Yours
   );
 }
 
+/**
+ * Type guard: checks if the backup is a bundle of named backups.
+ */
+export function isBundleBackup(backup: DecryptedBackup): backup is BundleBackup {
+  const declared = declaredType(backup);
+  if (declared) return declared === 'Bundle';
+  return 'entries' in backup && Array.isArray((backup as { entries: unknown }).entries);
+}
+
 /** Backup type name for display/logging purposes */
 export type BackupTypeName =
   | 'Legacy'
@@ -99,12 +156,16 @@ export type BackupTypeName =
   | 'Vault'
   | 'YoursWallet'
   | 'YoursWalletZip'
+  | 'Bundle'
   | 'Unknown';
 
 /**
- * Returns a human-readable name for the backup type.
+ * Returns a human-readable name for the backup type: the explicit `type`
+ * discriminator if present, otherwise inferred from the payload's keys.
  */
 export function getBackupType(backup: DecryptedBackup): BackupTypeName {
+  const declared = declaredType(backup);
+  if (declared) return declared;
   if (isLegacyBackup(backup)) return 'Legacy';
   if (isType42Backup(backup)) return 'Type42';
   if (isAccountBackup(backup)) return 'Account';
@@ -113,5 +174,6 @@ export function getBackupType(backup: DecryptedBackup): BackupTypeName {
   if (isVaultBackup(backup)) return 'Vault';
   if (isYoursWalletZipBackup(backup)) return 'YoursWalletZip';
   if (isYoursWalletBackup(backup)) return 'YoursWallet';
+  if (isBundleBackup(backup)) return 'Bundle';
   return 'Unknown';
 }
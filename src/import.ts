@@ -0,0 +1,177 @@
+/**
+ * Adapters that turn raw wallet exports into typed backup payloads.
+ *
+ *   1sat        1Sat Ordinals / ord-wallet JSON { ordPk, payPk, identityPk }
+ *               → OneSatBackup
+ *   handcash    JSON list of WIFs, as strings or { wif | privateKey, label | name },
+ *               optionally under a `keys` property → one WifBackup per key
+ *   electrumsv  ElectrumSV keystore JSON: a BIP39 seed → YoursWalletBackup with
+ *               keys derived at the Yours Wallet paths; imported keypairs → one
+ *               WifBackup per key
+ *   wif         Plain text, one WIF per line with an optional label after it;
+ *               blank lines and # comments are ignored → one WifBackup per key
+ *
+ * Every result is checked with validateBackupKeys before it is returned.
+ */
+
+import { InvalidOptionsError, InvalidPayloadError, UnsupportedFormatError } from './errors';
+import type {
+  DecryptedBackup,
+  ImportFormat,
+  ImportOptions,
+  OneSatBackup,
+  WifBackup,
+} from './interfaces';
+import { validateBackupKeys } from './validate';
+import { deriveYoursWalletKeys } from './yours-wallet';
+
+type Network = 'mainnet' | 'testnet';
+
+type Adapter = (input: string, network: Network, label?: string) => DecryptedBackup[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Returns the first of `names` that holds a non-empty string, trimmed. */
+function stringField(record: Record<string, unknown>, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = record[name];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function withLabel<T extends DecryptedBackup>(backup: T, label?: string): T {
+  return label ? { ...backup, label } : backup;
+}
+
+function parseJson(input: string, format: ImportFormat): unknown {
+  try {
+    return JSON.parse(input);
+  } catch {
+    throw new InvalidPayloadError(`Invalid ${format} export: not valid JSON.`);
+  }
+}
+
+const importOneSat: Adapter = (input, _network, label) => {
+  const data = parseJson(input, '1sat');
+  if (!isRecord(data))
+    throw new InvalidPayloadError('Invalid 1sat export: expected a JSON object.');
+  const keys = {
+    ordPk: stringField(data, 'ordPk', 'ordWif'),
+    payPk: stringField(data, 'payPk', 'payWif', 'walletWif'),
+    identityPk: stringField(data, 'identityPk', 'identityWif'),
+  };
+  const missing = Object.keys(keys).filter((field) => !keys[field as keyof typeof keys]);
+  if (missing.length > 0) {
+    throw new InvalidPayloadError(`Invalid 1sat export: missing ${missing.join(', ')}.`);
+  }
+  return [withLabel(keys as OneSatBackup, stringField(data, 'label', 'name') ?? label)];
+};
+
+const importWifList: Adapter = (input, _network, label) => {
+  const data = parseJson(input, 'handcash');
+  const entries = Array.isArray(data) ? data : isRecord(data) ? data.keys : undefined;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new InvalidPayloadError('Invalid handcash export: expected a list of WIF keys.');
+  }
+  return entries.map((entry, i) => {
+    const record = isRecord(entry) ? entry : {};
+    const wif = typeof entry === 'string' ? entry.trim() : stringField(record, 'wif', 'privateKey');
+    if (!wif) throw new InvalidPayloadError(`Invalid handcash export: entry ${i + 1} has no WIF.`);
+    return withLabel<WifBackup>({ wif }, stringField(record, 'label', 'name') ?? label);
+  });
+};
+
+const importElectrumSv: Adapter = (input, network, label) => {
+  const data = parseJson(input, 'electrumsv');
+  if (!isRecord(data)) {
+    throw new InvalidPayloadError('Invalid electrumsv export: expected a JSON object.');
+  }
+  const keystore = isRecord(data.keystore) ? data.keystore : data;
+
+  if (keystore.type === 'imported') {
+    const keypairs = isRecord(keystore.keypairs) ? Object.values(keystore.keypairs) : [];
+    const wifs = keypairs.filter((wif): wif is string => typeof wif === 'string');
+    if (wifs.length === 0) {
+      throw new InvalidPayloadError('Invalid electrumsv export: imported keystore has no keys.');
+    }
+    return wifs.map((wif) => withLabel<WifBackup>({ wif }, label));
+  }
+
+  const seed = stringField(keystore, 'seed', 'mnemonic');
+  if (!seed) {
+    throw new InvalidPayloadError('Invalid electrumsv export: no seed or imported keys.');
+  }
+  const seedType = keystore.seed_type ?? data.seed_type;
+  if (seedType !== undefined && seedType !== 'bip39') {
+    throw new UnsupportedFormatError(
+      `Unsupported electrumsv seed type "${seedType}": only BIP39 seeds can be imported.`
+    );
+  }
+  // A YoursWalletBackup has nowhere to record a BIP39 passphrase, so its
+  // mnemonic alone would not restore the derived keys.
+  if (stringField(keystore, 'passphrase')) {
+    throw new UnsupportedFormatError(
+      'Unsupported electrumsv export: seeds with a BIP39 passphrase cannot be imported.'
+    );
+  }
+
+  const mnemonic = seed.split(/\s+/).join(' ');
+  return [withLabel(deriveYoursWalletKeys(mnemonic, network), label)];
+};
+
+const importWifText: Adapter = (input, _network, label) => {
+  const lines = input
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter(Boolean);
+  if (lines.length === 0) throw new InvalidPayloadError('Invalid wif export: no WIF keys found.');
+  return lines.map((line) => {
+    const [wif, ...rest] = line.split(/\s+/);
+    return withLabel<WifBackup>({ wif }, rest.join(' ') || label);
+  });
+};
+
+const ADAPTERS: Record<ImportFormat, Adapter> = {
+  '1sat': importOneSat,
+  handcash: importWifList,
+  electrumsv: importElectrumSv,
+  wif: importWifText,
+};
+
+/** Export formats accepted by importBackup. */
+export const IMPORT_FORMATS = Object.keys(ADAPTERS) as ImportFormat[];
+
+/**
+ * Converts a wallet export into typed backup payloads, ready for encryptBackup.
+ *
+ * @param input The export file contents.
+ * @param options `from` selects the export format; `network` the expected WIF network.
+ * @returns One payload per key set in the export (a WIF list yields one WifBackup per key).
+ * @throws InvalidOptionsError if the format is unknown.
+ * @throws InvalidPayloadError if the export is malformed or a key fails validateBackupKeys.
+ * @throws UnsupportedFormatError for ElectrumSV seeds that are not plain BIP39.
+ */
+export function importBackup(input: string, options: ImportOptions): DecryptedBackup[] {
+  if (!IMPORT_FORMATS.includes(options.from)) {
+    throw new InvalidOptionsError(
+      `Invalid import options: unknown format "${options.from}". Use ${IMPORT_FORMATS.join(', ')}.`
+    );
+  }
+  const network = options.network ?? 'mainnet';
+  const backups = ADAPTERS[options.from](input.replace(/^\uFEFF/, ''), network, options.label);
+
+  for (const [i, backup] of backups.entries()) {
+    const errors = validateBackupKeys(backup, { network });
+    if (errors.length > 0) {
+      const where = backups.length > 1 ? ` (key ${i + 1})` : '';
+      throw new InvalidPayloadError(
+        `Invalid ${options.from} export${where}: ${errors.map((error) => error.message).join(' ')}`,
+        errors
+      );
+    }
+  }
+  return backups;
+}
@@ -1,124 +1,173 @@
-import { decryptData, encryptData } from './crypto';
+import { PublicKey } from '@bsv/sdk';
+import {
+  addKeyslotData,
+  decryptData,
+  decryptDataStream,
+  decryptDataWithPrivateKey,
+  encryptData,
+  encryptDataForRecipients,
+  encryptDataStream,
+  inspectData,
+  removeKeyslotData,
+  resealData,
+} from './crypto';
+import { MAX_ARGON2ID_PARAMS, MAX_PBKDF2_ITERATIONS, MIN_PBKDF2_ITERATIONS } from './envelope';
+import {
+  CorruptBackupError,
+  InvalidOptionsError,
+  InvalidPassphraseError,
+  InvalidPayloadError,
+} from './errors';
+import { getBackupType } from './guards';
 import type {
+  BackupInfo,
+  BackupShare,
   DecryptedBackup,
   EncryptedBackup,
+  EncryptOptions,
+  KeyValidationOptions,
+  PassphraseKdfInfo,
+  RecipientDecryptOptions,
+  RecipientEncryptOptions,
+  RekeyOptions,
+  SplitOptions,
+  StreamEncryptOptions,
   // BapMasterBackup, // Removed as it's covered by export *
   // BapAccountBackup, // Removed as it's covered by export *
   // WifBackup        // Removed as it's covered by export *
 } from './interfaces';
+import { decodePayload, encodePayload, payloadEncodingFor } from './payload';
+import { combineSecret, decodeShare, encodeShare, splitSecret } from './shamir';
+import { isValidPayload } from './structure';
+import { validateBackupKeys } from './validate';
 
 /**
- * Validates the structure of a payload intended for encryption.
- * @param payload The payload to validate.
- * @returns True if the payload is valid, false otherwise.
+ * Validates KDF selection and cost parameters passed to encryptBackup.
+ * @throws If the KDF is unknown, a cost parameter is not a positive integer or
+ *         is outside MIN/MAX_PBKDF2_ITERATIONS or MAX_ARGON2ID_PARAMS.
  */
-function isValidPayload(payload: unknown): payload is DecryptedBackup {
-  if (!payload || typeof payload !== 'object') return false;
-
-  // Narrow down type for property checks
-  const p = payload as Record<string, unknown>;
-
-  // Check for BapMasterBackup structure (legacy XPRV format)
-  if (
-    'xprv' in p &&
-    typeof p.xprv === 'string' &&
-    'ids' in p &&
-    typeof p.ids === 'string' &&
-    'mnemonic' in p &&
-    typeof p.mnemonic === 'string'
-  ) {
-    return true;
-  }
-
-  // Check for BapMasterBackup structure (Type 42 format)
-  if (
-    'rootPk' in p &&
-    typeof p.rootPk === 'string' &&
-    'ids' in p &&
-    typeof p.ids === 'string' &&
-    !('xprv' in p) // Ensure it's not a legacy format
-  ) {
-    return true;
+function assertValidEncryptOptions(options: number | EncryptOptions): void {
+  const opts: EncryptOptions = typeof options === 'number' ? { iterations: options } : options;
+  if (opts.kdf !== undefined && opts.kdf !== 'pbkdf2-sha256' && opts.kdf !== 'argon2id') {
+    throw new InvalidOptionsError("Invalid options: kdf must be 'pbkdf2-sha256' or 'argon2id'.");
   }
-
-  // Check for BapAccountBackup structure
-  if ('wif' in p && typeof p.wif === 'string' && 'id' in p && typeof p.id === 'string') {
-    return true;
+  const costs: [string, number | undefined][] = [
+    ['iterations', opts.iterations],
+    ['argon2.memory', opts.argon2?.memory],
+    ['argon2.time', opts.argon2?.time],
+    ['argon2.parallelism', opts.argon2?.parallelism],
+  ];
+  for (const [name, value] of costs) {
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new InvalidOptionsError(`Invalid options: ${name} must be a positive integer.`);
+    }
   }
-
-  // Check for WifBackup structure
   if (
-    'wif' in p &&
-    typeof p.wif === 'string' &&
-    !('id' in p) && // Differentiates from BapAccountBackup
-    !('xprv' in p) && // Differentiates from BapMasterBackupLegacy
-    !('rootPk' in p) // Differentiates from MasterBackupType42
+    opts.iterations !== undefined &&
+    (opts.iterations < MIN_PBKDF2_ITERATIONS || opts.iterations > MAX_PBKDF2_ITERATIONS)
   ) {
-    return true;
+    throw new InvalidOptionsError(
+      `Invalid options: iterations must be between ${MIN_PBKDF2_ITERATIONS} and ${MAX_PBKDF2_ITERATIONS}.`
+    );
   }
-
-  // Check for OneSatBackup structure
-  if (
-    'ordPk' in p &&
-    typeof p.ordPk === 'string' &&
-    'payPk' in p &&
-    typeof p.payPk === 'string' &&
-    'identityPk' in p &&
-    typeof p.identityPk === 'string'
-  ) {
-    return true;
+  for (const name of ['memory', 'time', 'parallelism'] as const) {
+    const value = opts.argon2?.[name];
+    if (value !== undefined && value > MAX_ARGON2ID_PARAMS[name]) {
+      throw new InvalidOptionsError(
+        `Invalid options: argon2.${name} must be at most ${MAX_ARGON2ID_PARAMS[name]}.`
+      );
+    }
   }
+}
 
-  // Check for VaultBackup structure - just needs encryptedVault
-  if ('encryptedVault' in p && typeof p.encryptedVault === 'string') {
-    return true;
+/**
+ * Runs the opt-in deep key validation requested through `validateKeys`.
+ * @throws If any key field of the payload is invalid, listing every failing field.
+ */
+function assertValidKeys(
+  payload: DecryptedBackup,
+  validateKeys: boolean | KeyValidationOptions | undefined
+): void {
+  if (!validateKeys) return;
+  const errors = validateBackupKeys(payload, validateKeys === true ? {} : validateKeys);
+  if (errors.length > 0) {
+    throw new InvalidPayloadError(
+      `Invalid payload: ${errors.map((error) => error.message).join(' ')}`,
+      errors
+    );
   }
+}
 
-  // Check for YoursWalletBackup structure - has payPk and ordPk like OneSat, but may have mnemonic
-  if (
-    'payPk' in p &&
-    typeof p.payPk === 'string' &&
-    'ordPk' in p &&
-    typeof p.ordPk === 'string' &&
-    ('mnemonic' in p || 'payDerivationPath' in p || 'ordDerivationPath' in p) // Distinguishes from OneSatBackup
-  ) {
-    return true;
+/**
+ * Validates the recipient list passed to encryptBackup.
+ * @throws If the list is empty, too long, or contains an invalid public key.
+ */
+function assertValidRecipients(options: RecipientEncryptOptions): void {
+  const { recipients } = options;
+  if (!Array.isArray(recipients) || recipients.length === 0 || recipients.length > 255) {
+    throw new InvalidOptionsError(
+      'Invalid options: recipients must list between 1 and 255 public keys.'
+    );
   }
-
-  // Check for YoursWalletZipBackup structure (parsed Yours Wallet ZIP)
-  if ('chromeStorage' in p && typeof p.chromeStorage === 'object' && p.chromeStorage !== null) {
-    return true;
+  for (const recipient of recipients) {
+    try {
+      PublicKey.fromString(recipient);
+    } catch {
+      throw new InvalidOptionsError(`Invalid options: ${recipient} is not a valid public key.`);
+    }
   }
-
-  return false;
 }
 
 /**
  * Encrypts a backup payload object into an encrypted string.
  * The type of backup is inferred from its structure.
  * @param payload The backup payload to encrypt.
- * @param passphrase The passphrase to use for encryption.
- * @param iterations Optional PBKDF2 iteration count. Defaults to `DEFAULT_PBKDF2_ITERATIONS` from crypto module.
+ * @param passphrase The passphrase to use for encryption, or RecipientEncryptOptions to
+ *                   encrypt to one or more public keys instead (no passphrase involved).
+ * @param options Optional PBKDF2 iteration count, or EncryptOptions selecting the KDF
+ *                ('pbkdf2-sha256' or 'argon2id') and its cost parameters.
+ *                Defaults to PBKDF2 with `DEFAULT_PBKDF2_ITERATIONS` from crypto module.
+ *                Set `validateKeys` to reject payloads whose key material fails
+ *                `validateBackupKeys` (off by default).
  * @returns A promise that resolves to the encrypted backup string (Base64 encoded).
- * @throws Will throw an error if the payload or passphrase is invalid.
+ * @throws InvalidPayloadError, InvalidPassphraseError or InvalidOptionsError if the payload,
+ *         passphrase or options are invalid.
  */
 export async function encryptBackup(
   payload: DecryptedBackup,
   passphrase: string,
-  iterations?: number
+  options?: number | EncryptOptions
+): Promise<EncryptedBackup>;
+export async function encryptBackup(
+  payload: DecryptedBackup,
+  recipients: RecipientEncryptOptions
+): Promise<EncryptedBackup>;
+export async function encryptBackup(
+  payload: DecryptedBackup,
+  passphrase: string | RecipientEncryptOptions,
+  options?: number | EncryptOptions
 ): Promise<EncryptedBackup> {
   if (!isValidPayload(payload)) {
-    throw new Error(
-      'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, or YoursWalletZipBackup structure.'
+    throw new InvalidPayloadError(
+      'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, YoursWalletZipBackup, or BundleBackup structure.'
     );
   }
+  if (typeof passphrase === 'object' && passphrase !== null) {
+    assertValidRecipients(passphrase);
+    assertValidKeys(payload, passphrase.validateKeys);
+    return encryptDataForRecipients(payload, passphrase.recipients, passphrase);
+  }
   if (typeof passphrase !== 'string' || passphrase.length === 0) {
-    throw new Error('Invalid passphrase: Passphrase must be a non-empty string.');
+    throw new InvalidPassphraseError('Invalid passphrase: Passphrase must be a non-empty string.');
   }
   if (passphrase.length < 8) {
-    throw new Error('Invalid passphrase: Passphrase must be at least 8 characters long.');
+    throw new InvalidPassphraseError(
+      'Invalid passphrase: Passphrase must be at least 8 characters long.'
+    );
   }
-  return encryptData(payload, passphrase, iterations);
+  if (options !== undefined) assertValidEncryptOptions(options);
+  if (typeof options === 'object') assertValidKeys(payload, options.validateKeys);
+  return encryptData(payload, passphrase, options);
 }
 
 /**
@@ -126,35 +175,349 @@ export async function encryptBackup(
  * Handles both new JSON-structured encrypted backups and legacy raw WIF encrypted backups.
  * Attempts decryption with default and legacy iteration counts if not specified.
  * @param encryptedString The encrypted backup string (Base64 encoded).
- * @param passphrase The passphrase used for encryption.
+ * @param passphrase The passphrase used for encryption, or `{ privateKey }` (WIF or hex)
+ *                   for backups encrypted to recipient public keys.
  * @param attemptIterations Optional. A specific iteration count, or an array of counts to try.
  *                        If undefined, defaults to trying [DEFAULT_PBKDF2_ITERATIONS, LEGACY_PBKDF2_ITERATIONS].
  * @returns A promise that resolves to the decrypted backup payload.
- * @throws Will throw an error if decryption fails or the format is invalid.
+ * @throws InvalidPassphraseError if the passphrase or key does not open the backup,
+ *         CorruptBackupError if the data is damaged, UnsupportedFormatError if the
+ *         format or mode is not supported.
  */
 export async function decryptBackup(
   encryptedString: EncryptedBackup,
   passphrase: string,
   attemptIterations?: number | number[]
+): Promise<DecryptedBackup>;
+export async function decryptBackup(
+  encryptedString: EncryptedBackup,
+  key: RecipientDecryptOptions
+): Promise<DecryptedBackup>;
+export async function decryptBackup(
+  encryptedString: EncryptedBackup,
+  passphrase: string | RecipientDecryptOptions,
+  attemptIterations?: number | number[]
 ): Promise<DecryptedBackup> {
   if (typeof encryptedString !== 'string' || encryptedString.length === 0) {
-    throw new Error('Invalid encryptedString: Must be a non-empty string.');
+    throw new CorruptBackupError('Invalid encryptedString: Must be a non-empty string.');
+  }
+  if (typeof passphrase === 'object' && passphrase !== null) {
+    if (typeof passphrase.privateKey !== 'string' || passphrase.privateKey.length === 0) {
+      throw new InvalidPassphraseError(
+        'Invalid privateKey: Private key must be a non-empty string.'
+      );
+    }
+    return decryptDataWithPrivateKey(encryptedString, passphrase.privateKey);
   }
   if (typeof passphrase !== 'string' || passphrase.length === 0) {
-    throw new Error('Invalid passphrase: Passphrase must be a non-empty string.');
+    throw new InvalidPassphraseError('Invalid passphrase: Passphrase must be a non-empty string.');
   }
   return decryptData(encryptedString, passphrase, attemptIterations);
 }
 
+/**
+ * Encrypts a large backup as a stream, for files such as Yours Wallet ZIP
+ * exports with many sync chunks that should not be held in memory at once.
+ * The bytes are encrypted as they are, not parsed into a backup payload.
+ * The plaintext is cut into 64 KiB segments, each authenticated on its own
+ * (STREAM construction), behind the same versioned header as encryptBackup.
+ * @param plaintext The backup file (e.g. a Yours Wallet ZIP) as a byte stream.
+ * @param passphrase The passphrase to use for encryption.
+ * @param options Optional KDF and cost parameters, as for encryptBackup.
+ * @returns A promise that resolves to the binary (not Base64) encrypted stream.
+ * @throws InvalidPassphraseError or InvalidOptionsError if the passphrase or options are invalid.
+ */
+export async function encryptBackupStream(
+  plaintext: ReadableStream<Uint8Array>,
+  passphrase: string,
+  options?: StreamEncryptOptions
+): Promise<ReadableStream<Uint8Array>> {
+  if (typeof passphrase !== 'string' || passphrase.length === 0) {
+    throw new InvalidPassphraseError('Invalid passphrase: Passphrase must be a non-empty string.');
+  }
+  if (passphrase.length < 8) {
+    throw new InvalidPassphraseError(
+      'Invalid passphrase: Passphrase must be at least 8 characters long.'
+    );
+  }
+  if (options !== undefined) assertValidEncryptOptions(options);
+  return encryptDataStream(plaintext, passphrase, options);
+}
+
+/**
+ * Decrypts a stream produced by encryptBackupStream. The first segment is
+ * authenticated before the promise resolves; a later corrupted or truncated
+ * segment errors the returned stream.
+ * @param ciphertext The binary encrypted stream.
+ * @param passphrase The passphrase used for encryption.
+ * @param attemptIterations Optional. Restricts the PBKDF2 iteration counts accepted.
+ * @returns A promise that resolves to the decrypted byte stream.
+ * @throws InvalidPassphraseError if the passphrase is wrong, UnsupportedFormatError
+ *         if the input is not a streamed envelope.
+ */
+export async function decryptBackupStream(
+  ciphertext: ReadableStream<Uint8Array>,
+  passphrase: string,
+  attemptIterations?: number | number[]
+): Promise<ReadableStream<Uint8Array>> {
+  if (typeof passphrase !== 'string' || passphrase.length === 0) {
+    throw new InvalidPassphraseError('Invalid passphrase: Passphrase must be a non-empty string.');
+  }
+  return decryptDataStream(ciphertext, passphrase, attemptIterations);
+}
+
+/** EncryptOptions selecting the KDF and cost parameters recorded for a passphrase. */
+function kdfOptions(kdf: PassphraseKdfInfo): EncryptOptions {
+  if (kdf.id === 'argon2id') {
+    const { memory, time, parallelism } = kdf;
+    return { kdf: kdf.id, argon2: { memory, time, parallelism } };
+  }
+  return { kdf: kdf.id, iterations: kdf.iterations };
+}
+
+/**
+ * Re-encrypts a backup under a new passphrase and, optionally, a different KDF.
+ * The decrypted payload is carried over unchanged, so `createdAt` and `label`
+ * are preserved, as is a public metadata section or keyslot layout (unless
+ * `options` says otherwise). Without a KDF in `options`, the backup's current
+ * KDF and cost parameters are kept (slot 0's for a keyslot backup).
+ *
+ * A fresh content key is used, so a keyslot backup keeps only the new
+ * passphrase's slot. Backups with more than one keyslot are rejected unless
+ * `options.dropKeyslots` is set.
+ * @param encryptedString The encrypted backup string (Base64 encoded).
+ * @param oldPassphrase The current passphrase.
+ * @param newPassphrase The new passphrase (min 8 characters).
+ * @param options Optional PBKDF2 iteration count or RekeyOptions for the new encryption.
+ * @returns A promise that resolves to the re-encrypted backup string.
+ * @throws InvalidOptionsError if the backup has several keyslots and `dropKeyslots` is not set.
+ * @throws Will throw an error if decryption with the old passphrase fails or an input is invalid.
+ */
+export async function rekeyBackup(
+  encryptedString: EncryptedBackup,
+  oldPassphrase: string,
+  newPassphrase: string,
+  options?: number | RekeyOptions
+): Promise<EncryptedBackup> {
+  const { dropKeyslots, ...opts }: RekeyOptions =
+    typeof options === 'number' ? { iterations: options } : (options ?? {});
+  const { kdf, metadata } = inspectBackup(encryptedString);
+  if (kdf?.id === 'keyslots' && kdf.slots.length > 1 && !dropKeyslots) {
+    throw new InvalidOptionsError(
+      `Invalid options: the backup has ${kdf.slots.length} keyslots and rekeying keeps only the new passphrase; set dropKeyslots to confirm, or use addKeyslot/removeKeyslot.`
+    );
+  }
+  const payload = await decryptBackup(encryptedString, oldPassphrase);
+  const recorded = kdf?.id === 'keyslots' ? kdf.slots[0] : kdf;
+  const keepKdf =
+    opts.kdf === undefined && opts.iterations === undefined && opts.argon2 === undefined;
+  return encryptBackup(payload, newPassphrase, {
+    ...(keepKdf && recorded && recorded.id !== 'ecies-recipients' ? kdfOptions(recorded) : {}),
+    publicMetadata: metadata !== undefined,
+    keyslots: kdf?.id === 'keyslots',
+    ...opts,
+  });
+}
+
+/**
+ * Replaces the payload of an encrypted backup while keeping how it is
+ * protected: the same passphrase KDF and salt, every keyslot, or every
+ * recipient, and its public metadata setting. Unlike rekeyBackup, no
+ * passphrase changes, so bundles can be updated without revoking keyslots.
+ * @param encryptedString The encrypted backup string (Base64 encoded).
+ * @param passphrase A passphrase that opens the backup, or `{ privateKey }` (WIF or hex)
+ *                   for a backup encrypted to recipient public keys.
+ * @param payload The new payload, validated as by encryptBackup.
+ * @returns A promise that resolves to the re-encrypted backup string.
+ * @throws InvalidPassphraseError if the passphrase or key does not open the backup,
+ *         UnsupportedFormatError for legacy headerless or streamed backups.
+ */
+export async function resealBackup(
+  encryptedString: EncryptedBackup,
+  passphrase: string | RecipientDecryptOptions,
+  payload: DecryptedBackup
+): Promise<EncryptedBackup> {
+  if (typeof encryptedString !== 'string' || encryptedString.length === 0) {
+    throw new CorruptBackupError('Invalid encryptedString: Must be a non-empty string.');
+  }
+  if (!isValidPayload(payload)) {
+    throw new InvalidPayloadError(
+      'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, YoursWalletZipBackup, or BundleBackup structure.'
+    );
+  }
+  const secret =
+    typeof passphrase === 'object' && passphrase !== null ? passphrase.privateKey : passphrase;
+  if (typeof secret !== 'string' || secret.length === 0) {
+    throw new InvalidPassphraseError(
+      'Invalid passphrase: Passphrase or private key must be a non-empty string.'
+    );
+  }
+  return resealData(encryptedString.trim(), passphrase, payload);
+}
+
+/**
+ * Adds a passphrase keyslot to an encrypted backup, so several passphrases can
+ * each decrypt the same file. The payload is encrypted once under a random
+ * content key; each keyslot wraps that key under its own passphrase-derived key.
+ * Backups that do not use keyslots yet are converted (re-encrypted once) with
+ * `passphrase` as slot 0. See also `encryptBackup(..., { keyslots: true })`.
+ * @param encryptedString The encrypted backup string (Base64 encoded).
+ * @param passphrase A passphrase that currently decrypts the backup.
+ * @param newPassphrase The passphrase for the new keyslot.
+ * @param options Optional PBKDF2 iteration count or EncryptOptions for the new keyslot's KDF.
+ * @returns A promise that resolves to the updated encrypted backup string.
+ * @throws Will throw an error if a passphrase or option is invalid or decryption fails.
+ */
+export async function addKeyslot(
+  encryptedString: EncryptedBackup,
+  passphrase: string,
+  newPassphrase: string,
+  options?: number | EncryptOptions
+): Promise<EncryptedBackup> {
+  if (typeof encryptedString !== 'string' || encryptedString.length === 0) {
+    throw new CorruptBackupError('Invalid encryptedString: Must be a non-empty string.');
+  }
+  if (typeof passphrase !== 'string' || passphrase.length === 0) {
+    throw new InvalidPassphraseError('Invalid passphrase: Passphrase must be a non-empty string.');
+  }
+  if (typeof newPassphrase !== 'string' || newPassphrase.length < 8) {
+    throw new InvalidPassphraseError(
+      'Invalid passphrase: New passphrase must be at least 8 characters long.'
+    );
+  }
+  if (options !== undefined) assertValidEncryptOptions(options);
+  return addKeyslotData(encryptedString.trim(), passphrase, newPassphrase, options);
+}
+
+/**
+ * Revokes a keyslot by index (as listed in `inspectBackup(...).kdf.slots`).
+ * Only the keyslot table changes; the payload ciphertext is left untouched, so
+ * copies of the file made before the removal still open with the revoked passphrase.
+ * @param encryptedString The encrypted backup string (Base64 encoded).
+ * @param passphrase A passphrase that opens one of the backup's keyslots.
+ * @param slot Index of the keyslot to remove.
+ * @returns A promise that resolves to the updated encrypted backup string.
+ * @throws Will throw an error if the backup has no such keyslot, it is the last one,
+ *         or the passphrase opens none of them.
+ */
+export async function removeKeyslot(
+  encryptedString: EncryptedBackup,
+  passphrase: string,
+  slot: number
+): Promise<EncryptedBackup> {
+  if (typeof encryptedString !== 'string' || encryptedString.length === 0) {
+    throw new CorruptBackupError('Invalid encryptedString: Must be a non-empty string.');
+  }
+  if (typeof passphrase !== 'string' || passphrase.length === 0) {
+    throw new InvalidPassphraseError('Invalid passphrase: Passphrase must be a non-empty string.');
+  }
+  return removeKeyslotData(encryptedString.trim(), passphrase, slot);
+}
+
+/**
+ * Reads the cleartext header of an encrypted backup without the passphrase.
+ * Reports the envelope version, cipher, KDF parameters and, if the backup was
+ * encrypted with `publicMetadata`, its label, type and createdAt.
+ * @param encryptedString The encrypted backup string (Base64 encoded).
+ * @returns The backup description; legacy headerless backups only report `format: 'legacy'`.
+ * @throws Will throw an error if the input is not valid Base64 or the header is malformed.
+ */
+export function inspectBackup(encryptedString: EncryptedBackup): BackupInfo {
+  if (typeof encryptedString !== 'string' || encryptedString.length === 0) {
+    throw new CorruptBackupError('Invalid encryptedString: Must be a non-empty string.');
+  }
+  return inspectData(encryptedString.trim());
+}
+
+/**
+ * Splits a backup payload into Shamir secret shares for M-of-N recovery.
+ * Each encoded share records its index, the threshold and a SHA-256 checksum
+ * of the original payload. Shares are not encrypted: store them separately.
+ * @param payload The backup payload to split (e.g. a BapMasterBackup).
+ * @param options `threshold` shares out of `shares` are needed to recover it.
+ * @returns The encoded shares, one per holder.
+ * @throws Will throw an error if the payload or options are invalid.
+ */
+export function splitBackup(payload: DecryptedBackup, options: SplitOptions): BackupShare[] {
+  if (!isValidPayload(payload)) {
+    throw new InvalidPayloadError(
+      'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, YoursWalletZipBackup, or BundleBackup structure.'
+    );
+  }
+  const payloadToSplit = {
+    ...payload,
+    type: getBackupType(payload),
+    createdAt: payload.createdAt || new Date().toISOString(),
+  } as DecryptedBackup;
+  const encoding = payloadEncodingFor(payloadToSplit);
+  const secret = encodePayload(payloadToSplit, encoding);
+  return splitSecret(secret, options.threshold, options.shares).map((share) =>
+    encodeShare({ ...share, encoding })
+  );
+}
+
+/**
+ * Recovers a backup payload from Shamir shares produced by splitBackup.
+ * @param shares At least `threshold` encoded shares from the same split.
+ * @returns The recovered backup payload.
+ * @throws Will throw an error if shares are malformed, too few, from different
+ *         splits, or do not reconstruct a valid backup.
+ */
+export function combineShares(shares: BackupShare[]): DecryptedBackup {
+  if (!Array.isArray(shares) || shares.length === 0) {
+    throw new CorruptBackupError('Invalid shares: Must be a non-empty array of share strings.');
+  }
+  const decoded = shares.map(decodeShare);
+  const secret = combineSecret(decoded);
+  let payload: unknown;
+  try {
+    payload = decodePayload(secret, decoded[0].encoding ?? 'json');
+  } catch {
+    throw new CorruptBackupError('Invalid shares: recovered data could not be decoded.');
+  }
+  if (!isValidPayload(payload)) {
+    throw new CorruptBackupError('Invalid shares: recovered data is not a valid backup payload.');
+  }
+  return payload;
+}
+
+// Re-export the BAP identities reader
+export { listBapIdentities } from './bap';
+// Re-export the bundle entry helpers
+export { addBundleEntry, getBundleEntry, removeBundleEntry } from './bundle';
 // Optionally re-export constants if they are part of the public API
 export {
+  DEFAULT_ARGON2ID_PARAMS,
   DEFAULT_PBKDF2_ITERATIONS,
   LEGACY_PBKDF2_ITERATIONS,
   RECOMMENDED_PBKDF2_ITERATIONS,
 } from './crypto';
+// Re-export master backup key derivation
+export { deriveAccountBackup, deriveFromBackup, extractAccountBackup } from './derive';
+// Re-export the secret-free backup description
+export { describeBackup } from './describe';
+export { MAX_ARGON2ID_PARAMS, MAX_PBKDF2_ITERATIONS, MIN_PBKDF2_ITERATIONS } from './envelope';
+// Re-export typed errors
+export * from './errors';
+// Re-export the wallet format exporters and importers
+export { EXPORT_FORMATS, exportBackup } from './export';
 // Re-export type guards for backup type detection
 export * from './guards';
+export { IMPORT_FORMATS, importBackup } from './import';
 // Re-export interfaces for library consumers
 export * from './interfaces';
+// Re-export the legacy-to-Type 42 master backup migration
+export { migrateLegacyToType42 } from './migrate';
+// Re-export the deep key validator
+export { validateBackupKeys } from './validate';
 // Re-export Yours Wallet helpers (guards live in ./guards to avoid duplicate exports)
-export { extractKeysFromChromeStorage, parseYoursWalletZip } from './yours-wallet';
+export {
+  buildYoursWalletZip,
+  decodeYoursWalletZipEntries,
+  decryptYoursWalletKeys,
+  deriveYoursWalletKeys,
+  extractKeysFromChromeStorage,
+  extractYoursWalletAccounts,
+  parseYoursWalletZip,
+  validateYoursWalletZip,
+} from './yours-wallet';
@@ -1,8 +1,11 @@
+import type { BackupTypeName } from './guards';
+
 export interface BapMasterBackupLegacy {
   ids: string; // Encrypted data from bsv-bap's bap.exportIds()
   xprv: string; // Master extended private key
   mnemonic: string; // BIP39 mnemonic phrase
   label?: string; // User-defined label (optional)
+  type?: 'Legacy'; // Backup type discriminator (stamped by encryptBackup)
   createdAt?: string; // ISO 8601 timestamp (populated by encryptBackup if not provided)
 }
 
@@ -10,6 +13,7 @@ export interface MasterBackupType42 {
   ids: string; // Encrypted data from bsv-bap's bap.exportIds()
   rootPk: string; // Master private key in WIF format (Type 42)
   label?: string; // User-defined label (optional)
+  type?: 'Type42'; // Backup type discriminator (stamped by encryptBackup)
   createdAt?: string; // ISO 8601 timestamp (populated by encryptBackup if not provided)
 }
 
@@ -20,12 +24,14 @@ export interface BapAccountBackup {
   wif: string; // Account private key in WIF format
   id: string; // BAP ID for this account
   label?: string; // User-defined label (optional)
+  type?: 'Account'; // Backup type discriminator (stamped by encryptBackup)
   createdAt?: string; // ISO 8601 timestamp (populated by encryptBackup if not provided)
 }
 
 export interface WifBackup {
   wif: string;
   label?: string; // User-defined label (optional)
+  type?: 'WIF'; // Backup type discriminator (stamped by encryptBackup)
   createdAt?: string; // ISO 8601 timestamp (populated by encryptBackup if a new WifBackup object is passed)
 }
 
@@ -34,6 +40,7 @@ export interface OneSatBackup {
   payPk: string; // Payment Private Key WIF
   identityPk: string; // Identity Private Key WIF (associated with a user identity)
   label?: string; // User-defined label (optional)
+  type?: 'OneSat'; // Backup type discriminator (stamped by encryptBackup)
   createdAt?: string; // ISO 8601 timestamp (populated by encryptBackup if not provided)
 }
 
@@ -52,6 +59,7 @@ export interface VaultBackup {
   encryptedVault: string; // Application's encrypted vault blob (any format the app uses)
   scheme?: string; // Vault encryption scheme identifier (e.g., "vscode-bitcoin-v1", "custom-vault-v2")
   label?: string; // User-defined label (optional)
+  type?: 'Vault'; // Backup type discriminator (stamped by encryptBackup)
   createdAt?: string; // ISO 8601 timestamp (populated by encryptBackup if not provided)
 }
 
@@ -68,6 +76,7 @@ export interface YoursWalletBackup {
   identityPk?: string; // Identity Private Key WIF (optional for compatibility)
   identityDerivationPath?: string; // Identity key derivation path (e.g., "m/0'/236'/0'/0/0")
   label?: string; // User-defined label (optional)
+  type?: 'YoursWallet'; // Backup type discriminator (stamped by encryptBackup)
   createdAt?: string; // ISO 8601 timestamp (populated by encryptBackup if not provided)
 }
 
@@ -110,13 +119,59 @@ export type YoursWalletBackupManifest = YoursWalletBackupManifestV1 | YoursWalle
  *   - chromeStorage.json   — accounts (with encrypted keys), selectedAccount, salt, settings
  *   - settings.bin         — msgpack-encoded wallet-toolbox storage settings (v1/v2)
  *   - chunk-XXXX.bin        — msgpack-encoded sync chunks (v1: flat; v2: under <identityAddress>/)
+ *
+ * parseYoursWalletZip keeps the msgpack entries as their original bytes in
+ * rawEntries, so buildYoursWalletZip writes them back unchanged; use
+ * decodeYoursWalletZipEntries to inspect them.
  */
 export interface YoursWalletZipBackup {
   chromeStorage: Record<string, unknown>; // Parsed chromeStorage.json (required)
   manifest?: YoursWalletBackupManifest; // Parsed manifest.json (absent for legacy backups)
-  settings?: unknown; // Decoded settings.bin (msgpack), present for v1/v2 backups
-  chunks?: Record<string, unknown>; // Decoded sync chunks (msgpack), keyed by ZIP entry name
+  rawEntries?: Record<string, Uint8Array>; // Original settings.bin and chunk bytes, keyed by ZIP entry name
+  settings?: unknown; // Decoded settings.bin, for hand-built backups and backups parsed before rawEntries
+  chunks?: Record<string, unknown>; // Decoded sync chunks, keyed by ZIP entry name (as for settings)
+  label?: string; // User-defined label (optional)
+  type?: 'YoursWalletZip'; // Backup type discriminator (stamped by encryptBackup)
+  createdAt?: string; // ISO 8601 timestamp (populated by encryptBackup if not provided)
+}
+
+/** Options for parseYoursWalletZip. */
+export interface YoursWalletZipParseOptions {
+  validate?: boolean; // Run validateYoursWalletZip and reject errors (default true)
+}
+
+/** One problem found by validateYoursWalletZip. */
+export interface YoursWalletZipIssue {
+  account?: string; // Identity address of the affected account, if the issue is per account
+  message: string;
+}
+
+/** Structural validation report for a Yours Wallet backup ZIP. */
+export interface YoursWalletZipReport {
+  valid: boolean; // True when there are no errors (warnings are allowed)
+  errors: YoursWalletZipIssue[]; // Problems that make the backup incomplete or unreadable
+  warnings: YoursWalletZipIssue[]; // Inconsistencies that do not prevent a restore
+}
+
+/** One account's keys extracted from a Yours Wallet backup (produced by extractYoursWalletAccounts). */
+export interface YoursWalletAccountKeys {
+  identityAddress?: string; // Account identity address (chromeStorage account key, v2 ZIP folder prefix)
+  identityKey?: string; // Account identity public key (from the manifest)
+  name?: string; // Account name (from the manifest, else chromeStorage)
+  backup: YoursWalletBackup; // The account's keys, labelled with its name
+}
+
+/** One named backup inside a BundleBackup. */
+export interface BundleEntry {
+  name: string; // Unique within the bundle
+  backup: DecryptedBackup; // Any backup except another bundle
+}
+
+/** Several backups kept together in one encrypted file. */
+export interface BundleBackup {
+  entries: BundleEntry[];
   label?: string; // User-defined label (optional)
+  type?: 'Bundle'; // Backup type discriminator (stamped by encryptBackup)
   createdAt?: string; // ISO 8601 timestamp (populated by encryptBackup if not provided)
 }
 
@@ -127,7 +182,178 @@ export type DecryptedBackup =
   | OneSatBackup
   | VaultBackup
   | YoursWalletBackup
-  | YoursWalletZipBackup;
+  | YoursWalletZipBackup
+  | BundleBackup;
 
 // Represents the final encrypted string, typically Base64 encoded
 export type EncryptedBackup = string;
+
+/** Key derivation functions selectable when encrypting a backup. */
+export type BackupKdf = 'pbkdf2-sha256' | 'argon2id';
+
+/** Argon2id cost parameters. Omitted fields fall back to DEFAULT_ARGON2ID_PARAMS. */
+export interface Argon2idOptions {
+  memory?: number; // Memory cost in KiB
+  time?: number; // Number of passes over memory
+  parallelism?: number; // Degree of parallelism (lanes)
+}
+
+/** Options accepted by encryptBackup / encryptData. */
+export interface EncryptOptions {
+  kdf?: BackupKdf; // Defaults to 'pbkdf2-sha256'
+  iterations?: number; // PBKDF2 iteration count (pbkdf2-sha256 only)
+  argon2?: Argon2idOptions; // Argon2id cost parameters (argon2id only)
+  publicMetadata?: boolean; // Expose label, type and createdAt in the authenticated cleartext header
+  keyslots?: boolean; // Wrap a random content key in a passphrase keyslot so more can be added later
+  validateKeys?: boolean | KeyValidationOptions; // Reject payloads whose key material fails validateBackupKeys
+}
+
+/** Options for rekeyBackup: the new encryption, defaulting to the backup's current KDF. */
+export interface RekeyOptions extends EncryptOptions {
+  dropKeyslots?: boolean; // Allow rekeying a backup with several keyslots, keeping only the new passphrase
+}
+
+/** Options for encryptBackupStream: the KDF and its cost parameters. */
+export type StreamEncryptOptions = Pick<EncryptOptions, 'kdf' | 'iterations' | 'argon2'>;
+
+/** Options for validateBackupKeys. */
+export interface KeyValidationOptions {
+  network?: 'mainnet' | 'testnet'; // Network WIF keys must belong to. Defaults to 'mainnet'
+}
+
+/** Machine-readable reason a key field failed validation. */
+export type KeyValidationCode =
+  | 'invalid-wif'
+  | 'wrong-network'
+  | 'invalid-xprv'
+  | 'invalid-mnemonic-length'
+  | 'invalid-mnemonic-word'
+  | 'invalid-mnemonic-checksum'
+  | 'xprv-mnemonic-mismatch';
+
+/** A key field that failed validation. Messages never include the key material itself. */
+export interface KeyValidationError {
+  field: string; // Payload field name, e.g. 'wif' or 'mnemonic' ('<entry name>/wif' in a bundle)
+  code: KeyValidationCode;
+  message: string;
+}
+
+/** Wallet export formats understood by importBackup. */
+export type ImportFormat = '1sat' | 'handcash' | 'electrumsv' | 'wif';
+
+/** Options for importBackup. */
+export interface ImportOptions {
+  from: ImportFormat; // Format of the wallet export
+  network?: 'mainnet' | 'testnet'; // Network of the keys (and of derived WIFs). Defaults to 'mainnet'
+  label?: string; // Label for imported backups whose export does not name them
+}
+
+/** Wallet import formats exportBackup can write. */
+export type ExportFormat = 'yours' | '1sat' | 'wif' | 'mnemonic';
+
+/** Options for exportBackup. */
+export interface ExportOptions {
+  to: ExportFormat; // Format to write
+  network?: 'mainnet' | 'testnet'; // Network of WIFs derived from a mnemonic or xprv. Defaults to 'mainnet'
+}
+
+/** Options for deriveFromBackup: a BIP32 `path` for legacy masters, a BRC-42 `invoiceNumber` for Type 42. */
+export interface DeriveOptions {
+  path?: string; // BIP32 path from the xprv root, e.g. "m/44'/236'/0'/0/0" (legacy master backups)
+  invoiceNumber?: string; // BRC-42 invoice number, e.g. 'bap:0' (Type 42 master backups)
+  counterparty?: string; // BRC-42 counterparty: 'self' (default), 'anyone' or a public key (hex)
+  network?: 'mainnet' | 'testnet'; // Network of the derived WIF. Defaults to 'mainnet'
+}
+
+/** A BAP identity stored in a master backup's `ids` (returned by listBapIdentities). */
+export interface BapIdentity {
+  identityKey: string; // BAP identity key (idKey)
+  name?: string; // Identity name given in bsv-bap
+  rootAddress: string; // Address of the identity's root key; the identity key is derived from it
+  rootPath: string; // BIP32 path (legacy) or Type 42 invoice number of the root key
+  currentPath: string; // Path of the identity's current signing key
+}
+
+/** Identity check of a legacy-to-Type 42 migration (part of migrateLegacyToType42's result). */
+export interface MigrationReport {
+  identityKeysBefore: string[]; // BAP identity keys recorded in the legacy backup's ids
+  identityKeysAfter: (string | null)[]; // Identity keys re-derived from the new rootPk (null without a rootPath)
+  identityKeysMatch: boolean; // Every recorded identity key re-derives from the new rootPk
+  mismatchedIdentityKeys: string[]; // Recorded identity keys the new rootPk does not derive
+}
+
+/** Result of migrateLegacyToType42. */
+export interface LegacyMigration {
+  backup: MasterBackupType42; // The migrated backup, ready for encryptBackup
+  report: MigrationReport;
+}
+
+/** Public key and P2PKH addresses of one key held by a backup (see describeBackup). */
+export interface DescribedKey {
+  field: string; // Payload field holding the key, e.g. 'payPk', or 'xprv' for a legacy master root
+  path?: string; // Derivation path recorded in the backup (Yours Wallet keys)
+  publicKey: string; // Compressed public key (hex)
+  addresses: { mainnet: string; testnet: string }; // P2PKH addresses of the public key
+}
+
+/** Secret-free description of a decrypted backup (returned by describeBackup). */
+export interface BackupDescription {
+  type: BackupTypeName; // Backup type as reported by getBackupType
+  label?: string; // User-defined label
+  createdAt?: string; // ISO 8601 timestamp
+  keys: DescribedKey[]; // One entry per private key in the backup, in payload order
+  xpub?: string; // Extended public key of a legacy master backup's xprv
+  identityKeys?: string[]; // BAP identity keys: an account backup's `id`, or those in a master backup's `ids`
+}
+
+/**
+ * Cleartext metadata stored in the envelope header. It is readable without the
+ * passphrase (see inspectBackup) and bound to the ciphertext as AES-GCM
+ * additional authenticated data, so any modification fails decryption.
+ */
+export interface BackupMetadata {
+  type?: BackupTypeName; // Backup type as reported by getBackupType
+  label?: string; // User-defined label
+  createdAt?: string; // ISO 8601 timestamp
+}
+
+/** Options for splitBackup: any `threshold` of `shares` recover the backup. */
+export interface SplitOptions {
+  threshold: number; // Shares required to recover (M)
+  shares: number; // Shares produced (N), at most 255
+}
+
+// An encoded Shamir share of a backup, Base64 encoded
+export type BackupShare = string;
+
+/** Passphrase KDF recorded in an envelope or keyslot, without its salt. */
+export type PassphraseKdfInfo =
+  | { id: 'pbkdf2-sha256'; iterations: number }
+  | { id: 'argon2id'; memory: number; time: number; parallelism: number };
+
+/** KDF recorded in an envelope, without its salt or wrapped keys. */
+export type BackupKdfInfo =
+  | PassphraseKdfInfo
+  | { id: 'ecies-recipients'; recipients: string[] } // Recipient public keys (compressed hex)
+  | { id: 'keyslots'; slots: PassphraseKdfInfo[] }; // One entry per passphrase, by slot index
+
+/** Options for encrypting a backup to recipient public keys instead of a passphrase. */
+export interface RecipientEncryptOptions {
+  recipients: string[]; // secp256k1 public keys (hex) able to decrypt the backup
+  publicMetadata?: boolean; // Expose label, type and createdAt in the authenticated cleartext header
+  validateKeys?: boolean | KeyValidationOptions; // Reject payloads whose key material fails validateBackupKeys
+}
+
+/** Options for decrypting a backup encrypted to recipient public keys. */
+export interface RecipientDecryptOptions {
+  privateKey: string; // Recipient private key, WIF or 64-character hex
+}
+
+/** Passphrase-free description of an encrypted backup (returned by inspectBackup). */
+export interface BackupInfo {
+  format: 'envelope' | 'legacy'; // Legacy files are headerless and reveal nothing else
+  version?: number; // Envelope format version
+  cipher?: string; // Cipher id, e.g. 'aes-256-gcm'
+  kdf?: BackupKdfInfo;
+  metadata?: BackupMetadata; // Present only if the backup was written with publicMetadata
+}
@@ -0,0 +1,81 @@
+/**
+ * Migration of legacy (BIP32 xprv + mnemonic) BAP master backups to Type 42
+ * (rootPk) master backups.
+ */
+
+import { HD } from '@bsv/sdk';
+import {
+  bapIdentityRecords,
+  bapIdFromAddress,
+  bapPathKey,
+  decryptBapIds,
+  encryptBapIds,
+} from './bap';
+import { InvalidPayloadError, UnsupportedFormatError } from './errors';
+import { getBackupType, isLegacyBackup } from './guards';
+import type { DecryptedBackup, LegacyMigration, MasterBackupType42 } from './interfaces';
+import { validateBackupKeys } from './validate';
+
+/**
+ * Converts a legacy master backup to a Type 42 master backup. The rootPk is the
+ * private key of the xprv root (checked against the mnemonic first); `ids` is
+ * decrypted with the legacy key and re-encrypted to the rootPk's Type 42 ids
+ * key, and `label` is carried over.
+ *
+ * The report re-derives every identity key recorded in `ids` from the new
+ * rootPk at the identity's root path. Type 42 derives an identity's keys from
+ * its path as an invoice number, so identities created under BIP32 paths no
+ * longer derive from the new key: the report lists them in
+ * `mismatchedIdentityKeys` and `identityKeysMatch` is false. bsv-bap's
+ * `importIds()` rejects those identities; keep the legacy backup to sign for them.
+ *
+ * @throws UnsupportedFormatError if the backup is not a legacy master backup.
+ * @throws InvalidPayloadError if the xprv or mnemonic is invalid or they do not match.
+ * @throws CorruptBackupError if `ids` does not decrypt with the legacy key.
+ */
+export function migrateLegacyToType42(backup: DecryptedBackup): LegacyMigration {
+  if (!isLegacyBackup(backup)) {
+    throw new UnsupportedFormatError(
+      `Cannot migrate a ${getBackupType(backup)} backup: only legacy master backups can be migrated to Type 42.`
+    );
+  }
+  const errors = validateBackupKeys(backup);
+  if (errors.length > 0) {
+    throw new InvalidPayloadError(
+      `Invalid legacy backup: ${errors.map((error) => error.message).join(' ')}`,
+      errors
+    );
+  }
+
+  const rootPk = HD.fromString(backup.xprv).privKey.toWif();
+  const ids = decryptBapIds(backup);
+  const migrated: MasterBackupType42 = {
+    ids: encryptBapIds({ ids: '', rootPk }, ids),
+    rootPk,
+    ...(backup.label ? { label: backup.label } : {}),
+  };
+
+  const identities = bapIdentityRecords(ids) ?? [];
+  const identityKeysBefore = identities.map((id) => String(id.identityKey));
+  const identityKeysAfter = identities.map(({ rootPath, idSeed }) =>
+    typeof rootPath === 'string'
+      ? bapIdFromAddress(
+          bapPathKey(migrated, rootPath, typeof idSeed === 'string' ? idSeed : '')
+            .toPublicKey()
+            .toAddress()
+        )
+      : null
+  );
+  const mismatchedIdentityKeys = identityKeysBefore.filter(
+    (key, i) => key !== identityKeysAfter[i]
+  );
+  return {
+    backup: migrated,
+    report: {
+      identityKeysBefore,
+      identityKeysAfter,
+      identityKeysMatch: mismatchedIdentityKeys.length === 0,
+      mismatchedIdentityKeys,
+    },
+  };
+}
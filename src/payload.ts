@@ -0,0 +1,52 @@
+/**
+ * Serialization of backup payloads inside the encrypted envelope.
+ *
+ * Payloads are UTF-8 JSON, except YoursWalletZip backups: their raw
+ * settings.bin and sync chunk bytes (or, for older backups, decoded values
+ * holding Uint8Arrays, Dates, 64-bit integers and msgpack extension values)
+ * would be mangled by JSON.stringify, so the whole payload is msgpack-encoded
+ * instead, as is a bundle holding one. The envelope flags record which
+ * serialization was used.
+ */
+
+import { decode, encode } from '@msgpack/msgpack';
+import { getBackupType, isBundleBackup } from './guards';
+import type { DecryptedBackup } from './interfaces';
+
+export type PayloadEncoding = 'json' | 'msgpack';
+
+// bigints round-trip as int64/uint64; undefined fields are dropped as JSON would
+const ENCODE_OPTIONS = { useBigInt64: true, ignoreUndefined: true } as const;
+const DECODE_OPTIONS = { useBigInt64: true } as const;
+
+/**
+ * Selects the serialization for a payload: msgpack for YoursWalletZip backups
+ * and bundles containing one, JSON otherwise.
+ */
+export function payloadEncodingFor(payload: DecryptedBackup): PayloadEncoding {
+  if (isBundleBackup(payload)) {
+    return payload.entries.some((entry) => payloadEncodingFor(entry.backup) === 'msgpack')
+      ? 'msgpack'
+      : 'json';
+  }
+  return getBackupType(payload) === 'YoursWalletZip' ? 'msgpack' : 'json';
+}
+
+/** Serializes a payload to the plaintext bytes that are encrypted. */
+export function encodePayload(
+  payload: DecryptedBackup,
+  encoding: PayloadEncoding
+): Uint8Array<ArrayBuffer> {
+  if (encoding === 'msgpack') return new Uint8Array(encode(payload, ENCODE_OPTIONS));
+  return new TextEncoder().encode(JSON.stringify(payload));
+}
+
+/**
+ * Deserializes decrypted plaintext.
+ * @throws SyntaxError if JSON plaintext does not parse (a legacy raw WIF backup);
+ *         a msgpack decode error if msgpack plaintext is malformed.
+ */
+export function decodePayload(plaintext: Uint8Array, encoding: PayloadEncoding): unknown {
+  if (encoding === 'msgpack') return decode(plaintext, DECODE_OPTIONS);
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
@@ -0,0 +1,196 @@
+/**
+ * Shamir secret sharing over GF(256) and the encoded share format.
+ *
+ * Every byte of the secret is the constant term of its own random polynomial
+ * of degree threshold - 1; share i holds each polynomial evaluated at x = i.
+ * Any `threshold` shares recover the secret by Lagrange interpolation at x = 0,
+ * fewer reveal nothing about it.
+ *
+ * An encoded share is Base64 of:
+ *
+ *   magic      3 bytes   "BSS"
+ *   version    u8        SHARE_VERSION
+ *   flags      u8        bit 0: secret is a msgpack rather than UTF-8 JSON payload
+ *                        (see ./payload); other bits must be 0
+ *   threshold  u8        shares required to recover the secret
+ *   index      u8        x coordinate of this share (1-255)
+ *   checksum   32 bytes  SHA-256 of the original secret
+ *   data       bytes     share bytes (same length as the secret)
+ */
+
+import { Hash, Utils } from '@bsv/sdk';
+import { CorruptBackupError, InvalidOptionsError, UnsupportedFormatError } from './errors';
+import type { PayloadEncoding } from './payload';
+
+const { toArray, toBase64 } = Utils;
+
+const MAGIC = [0x42, 0x53, 0x53]; // "BSS"
+const SHARE_VERSION = 1;
+const FLAG_MSGPACK_PAYLOAD = 0x01;
+const CHECKSUM_LENGTH = 32;
+const HEADER_LENGTH = MAGIC.length + 4 + CHECKSUM_LENGTH;
+
+/** A decoded share. */
+export interface SecretShare {
+  threshold: number;
+  index: number;
+  checksum: Uint8Array; // SHA-256 of the original secret
+  data: Uint8Array;
+  encoding?: PayloadEncoding; // Serialization of the secret payload; 'json' when absent
+}
+
+// GF(256) log/exp tables for the AES polynomial x^8 + x^4 + x^3 + x + 1, generator 3.
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255];
+}
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Splits a secret into `shares` shares, any `threshold` of which recover it.
+ * @throws If threshold/shares are out of range (2 <= threshold <= shares <= 255).
+ */
+export function splitSecret(secret: Uint8Array, threshold: number, shares: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(shares)) {
+    throw new InvalidOptionsError('Invalid share options: threshold and shares must be integers.');
+  }
+  if (threshold < 2 || shares < threshold || shares > 255) {
+    throw new InvalidOptionsError(
+      'Invalid share options: require 2 <= threshold <= shares <= 255.'
+    );
+  }
+
+  const checksum = Uint8Array.from(Hash.sha256(Array.from(secret)));
+  const result: SecretShare[] = [];
+  for (let index = 1; index <= shares; index++) {
+    result.push({ threshold, index, checksum, data: new Uint8Array(secret.length) });
+  }
+
+  const coefficients = new Uint8Array(threshold - 1);
+  for (let byte = 0; byte < secret.length; byte++) {
+    // A zero leading coefficient would lower the polynomial degree
+    do globalThis.crypto.getRandomValues(coefficients);
+    while (coefficients[coefficients.length - 1] === 0);
+    for (const share of result) {
+      // Horner's rule: secret + c1*x + c2*x^2 + ...
+      let y = 0;
+      for (let c = coefficients.length - 1; c >= 0; c--) {
+        y = gfMul(y ^ coefficients[c], share.index);
+      }
+      share.data[byte] = y ^ secret[byte];
+    }
+  }
+  coefficients.fill(0);
+  return result;
+}
+
+/**
+ * Recovers a secret from at least `threshold` shares of the same split.
+ * @throws If the shares disagree, are too few, repeat an index, or fail the checksum.
+ */
+export function combineSecret(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) throw new CorruptBackupError('Invalid shares: no shares provided.');
+  const [first] = shares;
+  const checksumHex = Utils.toHex(Array.from(first.checksum));
+
+  for (const share of shares) {
+    if (
+      share.threshold !== first.threshold ||
+      (share.encoding ?? 'json') !== (first.encoding ?? 'json') ||
+      share.data.length !== first.data.length ||
+      Utils.toHex(Array.from(share.checksum)) !== checksumHex
+    ) {
+      throw new CorruptBackupError('Invalid shares: shares belong to different splits.');
+    }
+  }
+  const indices = new Set(shares.map((share) => share.index));
+  if (indices.size !== shares.length)
+    throw new CorruptBackupError('Invalid shares: duplicate share index.');
+  if (shares.length < first.threshold) {
+    throw new CorruptBackupError(
+      `Invalid shares: ${first.threshold} shares required, ${shares.length} provided.`
+    );
+  }
+
+  const points = shares.slice(0, first.threshold);
+  const secret = new Uint8Array(first.data.length);
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0;
+    for (const pi of points) {
+      // Lagrange basis polynomial for pi evaluated at x = 0
+      let basis = 1;
+      for (const pj of points) {
+        if (pj.index !== pi.index) basis = gfMul(basis, gfDiv(pj.index, pj.index ^ pi.index));
+      }
+      value ^= gfMul(pi.data[byte], basis);
+    }
+    secret[byte] = value;
+  }
+
+  if (Utils.toHex(Hash.sha256(Array.from(secret))) !== checksumHex) {
+    throw new CorruptBackupError(
+      'Invalid shares: recovered secret does not match the share checksum.'
+    );
+  }
+  return secret;
+}
+
+/** Encodes a share as a Base64 string. */
+export function encodeShare(share: SecretShare): string {
+  const bytes = new Uint8Array(HEADER_LENGTH + share.data.length);
+  bytes.set(MAGIC, 0);
+  bytes[3] = SHARE_VERSION;
+  bytes[4] = share.encoding === 'msgpack' ? FLAG_MSGPACK_PAYLOAD : 0;
+  bytes[5] = share.threshold;
+  bytes[6] = share.index;
+  bytes.set(share.checksum, 7);
+  bytes.set(share.data, HEADER_LENGTH);
+  return toBase64(Array.from(bytes));
+}
+
+/**
+ * Decodes a Base64 share string.
+ * @throws If the string is not a share or uses an unsupported version.
+ */
+export function decodeShare(encoded: string): SecretShare {
+  let bytes: Uint8Array;
+  try {
+    bytes = Uint8Array.from(toArray(encoded.trim(), 'base64'));
+  } catch {
+    throw new CorruptBackupError('Invalid share: not valid Base64.');
+  }
+  if (bytes.length <= HEADER_LENGTH || !MAGIC.every((b, i) => bytes[i] === b)) {
+    throw new CorruptBackupError('Invalid share: missing share header.');
+  }
+  if (bytes[3] !== SHARE_VERSION)
+    throw new UnsupportedFormatError(`Unsupported share version ${bytes[3]}.`);
+  if ((bytes[4] & ~FLAG_MSGPACK_PAYLOAD) !== 0)
+    throw new UnsupportedFormatError(
+      `Unsupported share: unknown flags 0x${bytes[4].toString(16)}.`
+    );
+  if (bytes[5] < 2 || bytes[6] === 0)
+    throw new CorruptBackupError('Invalid share: bad threshold or index.');
+  return {
+    threshold: bytes[5],
+    index: bytes[6],
+    checksum: bytes.slice(7, HEADER_LENGTH),
+    data: bytes.slice(HEADER_LENGTH),
+    encoding: bytes[4] & FLAG_MSGPACK_PAYLOAD ? 'msgpack' : 'json',
+  };
+}
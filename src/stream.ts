@@ -0,0 +1,143 @@
+/**
+ * STREAM construction (Hoang, Reyhanitabar, Rogaway, Vizár) over AES-256-GCM,
+ * used by the 'aes-256-gcm-stream' envelope cipher.
+ *
+ * The plaintext is cut into STREAM_SEGMENT_SIZE segments, each sealed on its
+ * own with the envelope's authenticated header as additional data and the nonce
+ *
+ *   prefix   7 bytes   random, stored in the envelope IV field
+ *   counter  u32 BE    segment index, starting at 0
+ *   last     u8        1 for the final segment, 0 otherwise
+ *
+ * Only the final segment may be shorter than the segment size (it may be
+ * empty), and only it carries last = 1, so reordering, dropping or truncating
+ * segments fails authentication.
+ */
+
+import { CorruptBackupError, InvalidPassphraseError } from './errors';
+
+/** Plaintext bytes per segment; each ciphertext segment is 16 bytes longer. */
+export const STREAM_SEGMENT_SIZE = 64 * 1024;
+
+export const STREAM_TAG_LENGTH = 16;
+
+export const STREAM_NONCE_PREFIX_LENGTH = 7;
+
+const MAX_SEGMENTS = 0xffffffff;
+
+function segmentNonce(prefix: Uint8Array, counter: number, last: boolean): Uint8Array<ArrayBuffer> {
+  if (counter > MAX_SEGMENTS) throw new CorruptBackupError('Invalid stream: too many segments.');
+  const nonce = new Uint8Array(STREAM_NONCE_PREFIX_LENGTH + 5);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(STREAM_NONCE_PREFIX_LENGTH, counter);
+  nonce[STREAM_NONCE_PREFIX_LENGTH + 4] = last ? 1 : 0;
+  return nonce;
+}
+
+/** Encrypts one segment. */
+export async function sealSegment(
+  key: CryptoKey,
+  prefix: Uint8Array,
+  aad: Uint8Array<ArrayBuffer>,
+  counter: number,
+  last: boolean,
+  plaintext: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer>> {
+  const ciphertext = await globalThis.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: segmentNonce(prefix, counter, last), additionalData: aad },
+    key,
+    plaintext
+  );
+  return new Uint8Array(ciphertext);
+}
+
+/**
+ * Decrypts one segment. A failure on the first segment is reported as a wrong
+ * passphrase; later failures mean the stream was modified or truncated.
+ */
+export async function openSegment(
+  key: CryptoKey,
+  prefix: Uint8Array,
+  aad: Uint8Array<ArrayBuffer>,
+  counter: number,
+  last: boolean,
+  ciphertext: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer>> {
+  try {
+    const plaintext = await globalThis.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: segmentNonce(prefix, counter, last), additionalData: aad },
+      key,
+      ciphertext
+    );
+    return new Uint8Array(plaintext);
+  } catch (decryptionError) {
+    if (!(decryptionError instanceof DOMException && decryptionError.name === 'OperationError')) {
+      throw decryptionError;
+    }
+    if (counter === 0) {
+      throw new InvalidPassphraseError('Decryption failed: Invalid passphrase or corrupted data.');
+    }
+    throw new CorruptBackupError(`Decryption failed: Stream segment ${counter} is corrupted.`);
+  }
+}
+
+/** Pulls bytes from a stream into a queue and hands them out in exact sizes. */
+export interface ByteQueue {
+  /** Reads until at least `n` bytes are queued or the source ends; returns the queued length. */
+  fill(n: number): Promise<number>;
+  /** Returns a copy of up to the first `n` queued bytes without removing them. */
+  peek(n: number): Uint8Array<ArrayBuffer>;
+  /** Removes and returns the first `n` queued bytes (n must not exceed the queued length). */
+  take(n: number): Uint8Array<ArrayBuffer>;
+  cancel(reason?: unknown): Promise<void>;
+}
+
+/** Wraps a byte stream in a ByteQueue. */
+export function createByteQueue(source: ReadableStream<Uint8Array>): ByteQueue {
+  const reader = source.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let done = false;
+
+  return {
+    async fill(n) {
+      while (!done && length < n) {
+        const result = await reader.read();
+        if (result.done) done = true;
+        else if (result.value.length > 0) {
+          chunks.push(result.value);
+          length += result.value.length;
+        }
+      }
+      return length;
+    },
+    peek(n) {
+      const out = new Uint8Array(Math.min(n, length));
+      let offset = 0;
+      for (const chunk of chunks) {
+        if (offset === out.length) break;
+        const count = Math.min(chunk.length, out.length - offset);
+        out.set(chunk.subarray(0, count), offset);
+        offset += count;
+      }
+      return out;
+    },
+    take(n) {
+      const out = new Uint8Array(n);
+      let offset = 0;
+      while (offset < n) {
+        const chunk = chunks[0];
+        const count = Math.min(chunk.length, n - offset);
+        out.set(chunk.subarray(0, count), offset);
+        offset += count;
+        if (count === chunk.length) chunks.shift();
+        else chunks[0] = chunk.subarray(count);
+      }
+      length -= n;
+      return out;
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Structural checks of backup payloads: the fields each declared `type`
+ * requires, and the key-presence heuristics used for payloads without one.
+ * Applied to payloads before encryption and after decryption.
+ */
+
+import { type DeclaredBackupType, getBackupType, isBackupTypeName } from './guards';
+import type { DecryptedBackup } from './interfaces';
+
+/**
+ * Checks the fields required by a payload's declared `type`.
+ */
+export function hasDeclaredShape(p: Record<string, unknown>, type: DeclaredBackupType): boolean {
+  const isString = (key: string) => typeof p[key] === 'string';
+  switch (type) {
+    case 'Legacy':
+      return isString('ids') && isString('xprv') && isString('mnemonic');
+    case 'Type42':
+      return isString('ids') && isString('rootPk');
+    case 'Account':
+      return isString('wif') && isString('id');
+    case 'WIF':
+      return isString('wif');
+    case 'OneSat':
+      return isString('ordPk') && isString('payPk') && isString('identityPk');
+    case 'Vault':
+      return isString('encryptedVault');
+    case 'YoursWallet':
+      return isString('payPk') && isString('ordPk');
+    case 'YoursWalletZip':
+      return typeof p.chromeStorage === 'object' && p.chromeStorage !== null;
+    case 'Bundle':
+      return hasValidEntries(p.entries);
+  }
+}
+
+/**
+ * Checks a bundle's entries: each has a unique, non-empty name and a valid
+ * backup that is not itself a bundle.
+ */
+function hasValidEntries(entries: unknown): boolean {
+  if (!Array.isArray(entries)) return false;
+  const names = new Set<string>();
+  return entries.every((entry) => {
+    if (!entry || typeof entry !== 'object') return false;
+    const { name, backup } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || !name || names.has(name)) return false;
+    names.add(name);
+    return isValidPayload(backup) && getBackupType(backup) !== 'Bundle';
+  });
+}
+
+/**
+ * Validates the structure of a backup payload.
+ * @param payload The payload to validate.
+ * @returns True if the payload is valid, false otherwise.
+ */
+export function isValidPayload(payload: unknown): payload is DecryptedBackup {
+  if (!payload || typeof payload !== 'object') return false;
+
+  // Narrow down type for property checks
+  const p = payload as Record<string, unknown>;
+
+  // An explicit type discriminator decides the structure to check
+  if ('type' in p && p.type !== undefined) {
+    return isBackupTypeName(p.type) && hasDeclaredShape(p, p.type);
+  }
+
+  // Check for BapMasterBackup structure (legacy XPRV format)
+  if (
+    'xprv' in p &&
+    typeof p.xprv === 'string' &&
+    'ids' in p &&
+    typeof p.ids === 'string' &&
+    'mnemonic' in p &&
+    typeof p.mnemonic === 'string'
+  ) {
+    return true;
+  }
+
+  // Check for BapMasterBackup structure (Type 42 format)
+  if (
+    'rootPk' in p &&
+    typeof p.rootPk === 'string' &&
+    'ids' in p &&
+    typeof p.ids === 'string' &&
+    !('xprv' in p) // Ensure it's not a legacy format
+  ) {
+    return true;
+  }
+
+  // Check for BapAccountBackup structure
+  if ('wif' in p && typeof p.wif === 'string' && 'id' in p && typeof p.id === 'string') {
+    return true;
+  }
+
+  // Check for WifBackup structure
+  if (
+    'wif' in p &&
+    typeof p.wif === 'string' &&
+    !('id' in p) && // Differentiates from BapAccountBackup
+    !('xprv' in p) && // Differentiates from BapMasterBackupLegacy
+    !('rootPk' in p) // Differentiates from MasterBackupType42
+  ) {
+    return true;
+  }
+
+  // Check for OneSatBackup structure
+  if (
+    'ordPk' in p &&
+    typeof p.ordPk === 'string' &&
+    'payPk' in p &&
+    typeof p.payPk === 'string' &&
+    'identityPk' in p &&
+    typeof p.identityPk === 'string'
+  ) {
+    return true;
+  }
+
+  // Check for VaultBackup structure - just needs encryptedVault
+  if ('encryptedVault' in p && typeof p.encryptedVault === 'string') {
+    return true;
+  }
+
+  // Check for YoursWalletBackup structure - has payPk and ordPk like OneSat, but may have mnemonic
+  if (
+    'payPk' in p &&
+    typeof p.payPk === 'string' &&
+    'ordPk' in p &&
+    typeof p.ordPk === 'string' &&
+    ('mnemonic' in p || 'payDerivationPath' in p || 'ordDerivationPath' in p) // Distinguishes from OneSatBackup
+  ) {
+    return true;
+  }
+
+  // Check for YoursWalletZipBackup structure (parsed Yours Wallet ZIP)
+  if ('chromeStorage' in p && typeof p.chromeStorage === 'object' && p.chromeStorage !== null) {
+    return true;
+  }
+
+  // Check for BundleBackup structure - named entries holding other backups
+  if ('entries' in p && hasValidEntries(p.entries)) {
+    return true;
+  }
+
+  return false;
+}
@@ -106,3 +106,11 @@ export async function forgetPassword(filePath: string): Promise<void> {
     // No cached password to remove
   }
 }
+
+/**
+ * Replace the cached passphrase for a .bep file, e.g. after its passphrase changed.
+ */
+export async function rotateCachedPassword(filePath: string, passphrase: string): Promise<void> {
+  await forgetPassword(filePath);
+  await cachePassword(filePath, passphrase);
+}
@@ -0,0 +1,152 @@
+/**
+ * Deep validation of the key material inside backup payloads.
+ *
+ * The payload guards only check field presence, so a mistyped WIF or mnemonic
+ * would be encrypted as-is and only discovered at restore time. These checks
+ * decode every key field and report problems per field.
+ */
+
+import { HD, Mnemonic, Utils } from '@bsv/sdk';
+import { isBundleBackup } from './guards';
+import type { DecryptedBackup, KeyValidationError, KeyValidationOptions } from './interfaces';
+
+const WIF_FIELDS = ['wif', 'rootPk', 'ordPk', 'payPk', 'identityPk'] as const;
+
+const WIF_VERSION = { mainnet: 0x80, testnet: 0xef } as const;
+
+const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+function checkWif(
+  field: string,
+  value: string,
+  network: 'mainnet' | 'testnet'
+): KeyValidationError | undefined {
+  let prefix: number[];
+  let data: number[];
+  try {
+    ({ prefix, data } = Utils.fromBase58Check(value) as { prefix: number[]; data: number[] });
+  } catch {
+    return {
+      field,
+      code: 'invalid-wif',
+      message: `${field} is not valid Base58Check (bad character or checksum).`,
+    };
+  }
+  if (data.length !== 32 && !(data.length === 33 && data[32] === 0x01)) {
+    return { field, code: 'invalid-wif', message: `${field} has an invalid private key length.` };
+  }
+  if (prefix[0] !== WIF_VERSION[network]) {
+    const other = network === 'mainnet' ? 'testnet' : 'mainnet';
+    return prefix[0] === WIF_VERSION[other]
+      ? {
+          field,
+          code: 'wrong-network',
+          message: `${field} is a ${other} key, expected ${network}.`,
+        }
+      : { field, code: 'invalid-wif', message: `${field} is not a WIF private key.` };
+  }
+  return undefined;
+}
+
+function checkXprv(field: string, value: string): KeyValidationError | undefined {
+  try {
+    const hd = HD.fromString(value);
+    if (hd.versionBytesNum === hd.constants.privKey) return undefined;
+    return { field, code: 'invalid-xprv', message: `${field} is an extended public key (xpub).` };
+  } catch {
+    return {
+      field,
+      code: 'invalid-xprv',
+      message: `${field} is not a valid extended private key (xprv).`,
+    };
+  }
+}
+
+function checkMnemonic(field: string, value: string): KeyValidationError | undefined {
+  const words = value.split(' ');
+  if (!MNEMONIC_WORD_COUNTS.includes(words.length)) {
+    return {
+      field,
+      code: 'invalid-mnemonic-length',
+      message: `${field} has ${words.length} words; BIP39 mnemonics have 12, 15, 18, 21 or 24 words separated by single spaces.`,
+    };
+  }
+  const mnemonic = Mnemonic.fromString(value);
+  const unknown = words
+    .map((word, i) => (mnemonic.Wordlist.value.includes(word) ? -1 : i + 1))
+    .filter((position) => position > 0);
+  if (unknown.length > 0) {
+    return {
+      field,
+      code: 'invalid-mnemonic-word',
+      message: `${field} word(s) at position ${unknown.join(', ')} are not in the BIP39 English wordlist.`,
+    };
+  }
+  if (!mnemonic.check()) {
+    return {
+      field,
+      code: 'invalid-mnemonic-checksum',
+      message: `${field} fails the BIP39 checksum (a word is likely wrong or out of order).`,
+    };
+  }
+  return undefined;
+}
+
+/** True for a non-empty string: empty key fields count as absent. */
+function isPresent(value: unknown): value is string {
+  return typeof value === 'string' && value !== '';
+}
+
+/**
+ * Validates the key material of a backup payload: WIF checksum and network
+ * (wif, rootPk, ordPk, payPk, identityPk), xprv format, BIP39 mnemonic words
+ * and checksum, and that a legacy master `xprv` is the BIP32 root of its `mnemonic`.
+ * Fields the payload does not have, or that are empty strings, are skipped. A bundle's entries are each
+ * validated, with fields reported as `<entry name>/<field>`.
+ * @returns One entry per invalid field; empty if every key is valid.
+ */
+export function validateBackupKeys(
+  payload: DecryptedBackup,
+  options: KeyValidationOptions = {}
+): KeyValidationError[] {
+  if (isBundleBackup(payload)) {
+    return payload.entries.flatMap((entry) =>
+      validateBackupKeys(entry.backup, options).map((error) => ({
+        ...error,
+        field: `${entry.name}/${error.field}`,
+        message: `${entry.name}: ${error.message}`,
+      }))
+    );
+  }
+  const network = options.network ?? 'mainnet';
+  const fields = payload as unknown as Record<string, unknown>;
+  const errors: KeyValidationError[] = [];
+  const push = (error: KeyValidationError | undefined) => {
+    if (error) errors.push(error);
+  };
+
+  for (const field of WIF_FIELDS) {
+    const value = fields[field];
+    if (isPresent(value)) push(checkWif(field, value, network));
+  }
+  const { xprv, mnemonic } = fields;
+  const xprvError = isPresent(xprv) ? checkXprv('xprv', xprv) : undefined;
+  const mnemonicError = isPresent(mnemonic) ? checkMnemonic('mnemonic', mnemonic) : undefined;
+  push(xprvError);
+  push(mnemonicError);
+
+  if (
+    isPresent(xprv) &&
+    isPresent(mnemonic) &&
+    !xprvError &&
+    !mnemonicError &&
+    HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed()).toString() !== xprv
+  ) {
+    errors.push({
+      field: 'xprv',
+      code: 'xprv-mnemonic-mismatch',
+      message: 'xprv is not the master key derived from mnemonic.',
+    });
+  }
+  return errors;
+}
@@ -1,13 +1,28 @@
-import { decode as decodeMsgpack } from '@msgpack/msgpack';
-import { unzipSync } from 'fflate';
+import { HD, Mnemonic, Utils } from '@bsv/sdk';
+import { decode as decodeMsgpack, encode as encodeMsgpack } from '@msgpack/msgpack';
+import { md5, sha1 } from '@noble/hashes/legacy.js';
+import { pbkdf2 } from '@noble/hashes/pbkdf2.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import {
+  CorruptBackupError,
+  InvalidPassphraseError,
+  InvalidPayloadError,
+  UnsupportedFormatError,
+} from './errors';
 import type {
+  YoursWalletAccountKeys,
   YoursWalletBackup,
   YoursWalletBackupManifest,
   YoursWalletZipBackup,
+  YoursWalletZipIssue,
+  YoursWalletZipParseOptions,
+  YoursWalletZipReport,
 } from './interfaces';
 
 /** Per-account shape read out of Yours Wallet Chrome storage. */
 interface ChromeStorageAccount {
+  name?: string;
   encryptedKeys?: unknown;
   privateKeys?: { payPk?: string; ordPk?: string; identityPk?: string };
   mnemonic?: string;
@@ -18,8 +33,38 @@ interface ChromeStorageAccount {
 interface ChromeStorageView {
   selectedAccount?: string;
   accounts?: Record<string, ChromeStorageAccount>;
+  salt?: unknown; // Salt for deriving the passKey from the wallet password
+  passKey?: unknown; // Hex passKey, used by the wallet to verify its password
+  encryptedKeys?: unknown; // Pre-multi-account wallets keep a single key set here
 }
 
+/** The key set Yours Wallet encrypts into an account's `encryptedKeys`. */
+interface YoursWalletKeys {
+  mnemonic?: string;
+  walletWif: string;
+  ordWif: string;
+  identityWif?: string;
+  walletDerivationPath?: string;
+  ordDerivationPath?: string;
+  identityDerivationPath?: string;
+}
+
+const DEFAULT_PAY_PATH = "m/44'/236'/0'/1/0";
+const DEFAULT_ORD_PATH = "m/44'/236'/1'/0/0";
+const DEFAULT_IDENTITY_PATH = "m/0'/236'/0'/0/0";
+
+/**
+ * PBKDF2 settings for deriving the passKey from the wallet password. crypto-js
+ * 4.2 changed the default PBKDF2 hasher from SHA-1 to SHA-256, so wallets of
+ * both kinds exist; SHA-256 is tried first.
+ */
+const PASS_KEY_SCHEMES = [
+  { hash: sha256, iterations: 1000 },
+  { hash: sha1, iterations: 1000 },
+];
+
+const OPENSSL_SALTED_PREFIX = 'Salted__';
+
 /**
  * Extracts keys from Yours Wallet Chrome storage format
  */
@@ -35,84 +80,618 @@ export function extractKeysFromChromeStorage(
 
     const account = chromeStorage.accounts[selectedAccount];
 
-    // Check if we have encrypted keys - these need to be decrypted with the wallet password
+    // Encrypted keys need the wallet password: use decryptYoursWalletKeys
     if (account.encryptedKeys) {
-      // For now, return null as we cannot decrypt without the wallet password
-      // In a real implementation, this would need the wallet's internal password
       return null;
     }
 
     // If keys are available in plain text (unlikely in production)
     if (account.privateKeys) {
+      const { identityPk } = account.privateKeys;
       return {
-        mnemonic: account.mnemonic || '',
+        ...(account.mnemonic ? { mnemonic: account.mnemonic } : {}),
         payPk: account.privateKeys.payPk || '',
-        payDerivationPath: account.derivationPaths?.pay || "m/44'/236'/0'/1/0",
+        payDerivationPath: account.derivationPaths?.pay || DEFAULT_PAY_PATH,
         ordPk: account.privateKeys.ordPk || '',
-        ordDerivationPath: account.derivationPaths?.ord || "m/44'/236'/1'/0/0",
-        identityPk: account.privateKeys.identityPk || '',
-        identityDerivationPath: account.derivationPaths?.identity || "m/0'/236'/0'/0/0",
+        ordDerivationPath: account.derivationPaths?.ord || DEFAULT_ORD_PATH,
+        ...(identityPk
+          ? {
+              identityPk,
+              identityDerivationPath: account.derivationPaths?.identity || DEFAULT_IDENTITY_PATH,
+            }
+          : {}),
       };
     }
 
     return null;
-  } catch (error) {
-    console.error('Error extracting keys from Chrome storage:', error);
+  } catch {
+    return null;
+  }
+}
+
+/** Derives the hex passKey crypto-js `PBKDF2(password, salt, { keySize: 8 })` produces. */
+function derivePassKey(
+  password: string,
+  salt: string,
+  scheme: (typeof PASS_KEY_SCHEMES)[number]
+): string {
+  const encoder = new TextEncoder();
+  const key = pbkdf2(scheme.hash, encoder.encode(password), encoder.encode(salt), {
+    c: scheme.iterations,
+    dkLen: 32,
+  });
+  return Utils.toHex(Array.from(key));
+}
+
+/** OpenSSL EVP_BytesToKey with MD5 and one round, as crypto-js uses for passphrases. */
+function evpBytesToKey(passphrase: Uint8Array, salt: Uint8Array): Uint8Array {
+  const derived = new Uint8Array(48); // 32-byte AES-256 key followed by a 16-byte IV
+  let block = new Uint8Array(0);
+  for (let offset = 0; offset < derived.length; offset += block.length) {
+    block = md5(Uint8Array.from([...block, ...passphrase, ...salt]));
+    derived.set(block.subarray(0, derived.length - offset), offset);
+  }
+  return derived;
+}
+
+/**
+ * Decrypts a crypto-js `AES.encrypt(text, passphrase)` string (Base64 of
+ * "Salted__" ‖ salt ‖ AES-256-CBC ciphertext).
+ * @returns The plaintext, or null if the passphrase does not fit.
+ */
+async function decryptCryptoJsAes(encrypted: string, passphrase: string): Promise<string | null> {
+  let bytes: Uint8Array;
+  try {
+    bytes = Uint8Array.from(Utils.toArray(encrypted, 'base64'));
+  } catch {
+    return null;
+  }
+  const prefix = new TextEncoder().encode(OPENSSL_SALTED_PREFIX);
+  if (bytes.length < 32 || !prefix.every((byte, i) => bytes[i] === byte)) return null;
+
+  const derived = evpBytesToKey(new TextEncoder().encode(passphrase), bytes.subarray(8, 16));
+  try {
+    const key = await globalThis.crypto.subtle.importKey(
+      'raw',
+      derived.slice(0, 32),
+      { name: 'AES-CBC' },
+      false,
+      ['decrypt']
+    );
+    const plaintext = await globalThis.crypto.subtle.decrypt(
+      { name: 'AES-CBC', iv: derived.slice(32) },
+      key,
+      bytes.slice(16)
+    );
+    return new TextDecoder('utf-8', { fatal: true }).decode(plaintext);
+  } catch {
+    return null; // Bad padding or non-UTF-8 output: wrong passphrase
+  }
+}
+
+/** Decrypts and parses one `encryptedKeys` value, or returns null if the passKey is wrong. */
+async function decryptAccountKeys(
+  encryptedKeys: string,
+  passKey: string
+): Promise<YoursWalletKeys | null> {
+  const plaintext = await decryptCryptoJsAes(encryptedKeys, passKey);
+  if (plaintext === null) return null;
+  try {
+    const keys = JSON.parse(plaintext) as YoursWalletKeys;
+    return typeof keys?.walletWif === 'string' && typeof keys.ordWif === 'string' ? keys : null;
+  } catch {
     return null;
   }
 }
 
+/**
+ * Maps a decrypted Yours Wallet key set onto a YoursWalletBackup. A missing
+ * mnemonic or identity key is left out rather than written as an empty string.
+ */
+function toYoursWalletBackup(keys: YoursWalletKeys, label?: string): YoursWalletBackup {
+  const backup: YoursWalletBackup = {
+    ...(keys.mnemonic ? { mnemonic: keys.mnemonic } : {}),
+    payPk: keys.walletWif,
+    payDerivationPath: keys.walletDerivationPath || DEFAULT_PAY_PATH,
+    ordPk: keys.ordWif,
+    ordDerivationPath: keys.ordDerivationPath || DEFAULT_ORD_PATH,
+  };
+  if (keys.identityWif) {
+    backup.identityPk = keys.identityWif;
+    backup.identityDerivationPath = keys.identityDerivationPath || DEFAULT_IDENTITY_PATH;
+  }
+  if (label) backup.label = label;
+  return backup;
+}
+
+const WIF_PREFIX = { mainnet: [0x80], testnet: [0xef] } as const;
+
+/**
+ * Derives the Yours Wallet pay, ordinals and identity keys of a BIP39 mnemonic
+ * (no passphrase) at the default Yours Wallet paths.
+ * @param network Network the derived WIFs are encoded for. Defaults to 'mainnet'.
+ */
+export function deriveYoursWalletKeys(
+  mnemonic: string,
+  network: 'mainnet' | 'testnet' = 'mainnet'
+): YoursWalletBackup {
+  const root = HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed());
+  const wifAt = (derivationPath: string) =>
+    root.derive(derivationPath).privKey.toWif([...WIF_PREFIX[network]]);
+  return {
+    mnemonic,
+    payPk: wifAt(DEFAULT_PAY_PATH),
+    payDerivationPath: DEFAULT_PAY_PATH,
+    ordPk: wifAt(DEFAULT_ORD_PATH),
+    ordDerivationPath: DEFAULT_ORD_PATH,
+    identityPk: wifAt(DEFAULT_IDENTITY_PATH),
+    identityDerivationPath: DEFAULT_IDENTITY_PATH,
+  };
+}
+
+/**
+ * Decrypts the `encryptedKeys` of every account in Yours Wallet Chrome storage
+ * (e.g. `parseYoursWalletZip(zip).chromeStorage`) with the wallet password.
+ *
+ * Yours Wallet derives a hex passKey with PBKDF2(password, salt) and encrypts
+ * each account's keys with crypto-js AES under that passKey. When the storage
+ * holds the wallet's own `passKey`, it is used to check the password up front.
+ *
+ * @param chromeStorage Parsed chromeStorage.json.
+ * @param walletPassword The password the wallet was unlocked with.
+ * @returns One YoursWalletBackup per account, labelled with the account name.
+ * @throws UnsupportedFormatError if the storage has no salt or no encrypted keys.
+ * @throws InvalidPassphraseError if the password is wrong.
+ * @throws CorruptBackupError if an account's keys do not decrypt under a verified password.
+ */
+export async function decryptYoursWalletKeys(
+  chromeStorage: ChromeStorageView,
+  walletPassword: string
+): Promise<YoursWalletBackup[]> {
+  const accounts = await decryptStorageAccounts(chromeStorage, walletPassword);
+  return accounts.map((account) => account.backup);
+}
+
+/**
+ * Decrypts every account of Yours Wallet Chrome storage, keeping the storage
+ * key (the account's identity address) alongside its keys.
+ */
+async function decryptStorageAccounts(
+  chromeStorage: ChromeStorageView,
+  walletPassword: string
+): Promise<{ identityAddress?: string; backup: YoursWalletBackup }[]> {
+  const { salt, passKey } = chromeStorage;
+  if (typeof salt !== 'string' || salt.length === 0) {
+    throw new UnsupportedFormatError('Invalid Yours Wallet backup: chromeStorage has no salt');
+  }
+
+  const encrypted: { encryptedKeys: string; label?: string; identityAddress?: string }[] = [];
+  for (const [identityAddress, account] of Object.entries(chromeStorage.accounts ?? {})) {
+    if (typeof account?.encryptedKeys === 'string') {
+      encrypted.push({
+        encryptedKeys: account.encryptedKeys,
+        label: account.name,
+        identityAddress,
+      });
+    }
+  }
+  if (encrypted.length === 0 && typeof chromeStorage.encryptedKeys === 'string') {
+    encrypted.push({ encryptedKeys: chromeStorage.encryptedKeys });
+  }
+  if (encrypted.length === 0) {
+    throw new UnsupportedFormatError('Invalid Yours Wallet backup: no encrypted keys found');
+  }
+
+  // Pick the passKey scheme: by the stored passKey if present, else by trial decryption
+  let derivedPassKey: string | undefined;
+  let firstKeys: YoursWalletKeys | null = null;
+  for (const scheme of PASS_KEY_SCHEMES) {
+    const candidate = derivePassKey(walletPassword, salt, scheme);
+    if (typeof passKey === 'string') {
+      if (candidate === passKey) {
+        derivedPassKey = candidate;
+        break;
+      }
+      continue;
+    }
+    firstKeys = await decryptAccountKeys(encrypted[0].encryptedKeys, candidate);
+    if (firstKeys) {
+      derivedPassKey = candidate;
+      break;
+    }
+  }
+  if (derivedPassKey === undefined) {
+    throw new InvalidPassphraseError('Decryption failed: Invalid wallet password.');
+  }
+
+  const accounts: { identityAddress?: string; backup: YoursWalletBackup }[] = [];
+  for (const [index, { encryptedKeys, label, identityAddress }] of encrypted.entries()) {
+    const keys =
+      index === 0 && firstKeys
+        ? firstKeys
+        : await decryptAccountKeys(encryptedKeys, derivedPassKey);
+    if (!keys) {
+      throw new CorruptBackupError(
+        `Invalid Yours Wallet backup: keys of account ${index + 1} could not be decrypted`
+      );
+    }
+    accounts.push({ identityAddress, backup: toYoursWalletBackup(keys, label) });
+  }
+  return accounts;
+}
+
+/**
+ * Extracts the keys of every account in a parsed Yours Wallet backup ZIP,
+ * paired with the account's identity key, identity address and name from the
+ * manifest. v2 manifests list each account; a v1 manifest names the identity
+ * key of its single account; legacy backups fall back to chromeStorage.
+ *
+ * @param backup The result of parseYoursWalletZip.
+ * @param walletPassword The password the wallet was unlocked with.
+ * @returns One entry per account, in chromeStorage order.
+ * @throws As decryptYoursWalletKeys.
+ */
+export async function extractYoursWalletAccounts(
+  backup: YoursWalletZipBackup,
+  walletPassword: string
+): Promise<YoursWalletAccountKeys[]> {
+  const accounts = await decryptStorageAccounts(
+    backup.chromeStorage as ChromeStorageView,
+    walletPassword
+  );
+  const { manifest } = backup;
+
+  return accounts.map(({ identityAddress, backup: keys }) => {
+    const entry =
+      manifest?.version === 2
+        ? manifest.accounts.find((account) => account.identityAddress === identityAddress)
+        : undefined;
+    const identityKey =
+      entry?.identityKey ??
+      (manifest?.version === 1 && accounts.length === 1 ? manifest.identityKey : undefined);
+    const name = entry?.name ?? keys.label;
+
+    const result: YoursWalletAccountKeys = { backup: name ? { ...keys, label: name } : keys };
+    if (identityAddress) result.identityAddress = identityAddress;
+    if (identityKey) result.identityKey = identityKey;
+    if (name) result.name = name;
+    return result;
+  });
+}
+
+/** Decodes one ZIP entry, reporting a malformed entry as a corrupt backup. */
+function decodeEntry<T>(name: string, decode: () => T): T {
+  try {
+    return decode();
+  } catch {
+    throw new CorruptBackupError(`Invalid Yours Wallet backup: ${name} could not be decoded`);
+  }
+}
+
+// int64/uint64 values decode to bigint and encode back to the same 64-bit format
+const MSGPACK_OPTIONS = { useBigInt64: true } as const;
+
 /** True for ZIP entries holding a msgpack-encoded wallet-toolbox sync chunk. */
 function isChunkEntry(name: string): boolean {
   return name.includes('chunk-') && name.endsWith('.bin');
 }
 
+/** True for the msgpack entries kept as raw bytes: settings.bin and the sync chunks. */
+function isMsgpackEntry(name: string): boolean {
+  return name === 'settings.bin' || isChunkEntry(name);
+}
+
+/** Names of the sync chunks held raw or decoded, without duplicates. */
+function chunkEntryNames(backup: YoursWalletZipBackup): string[] {
+  const rawNames = Object.keys(backup.rawEntries ?? {}).filter(isChunkEntry);
+  return [...new Set([...rawNames, ...Object.keys(backup.chunks ?? {})])];
+}
+
+/** True if the backup holds settings.bin, raw or decoded. */
+function hasSettings(backup: YoursWalletZipBackup): boolean {
+  return backup.rawEntries?.['settings.bin'] !== undefined || backup.settings !== undefined;
+}
+
 /**
  * Parses a Yours Wallet master backup ZIP into its structured contents.
  *
  * The ZIP (fflate/deflate) holds chromeStorage.json (required), an optional
  * manifest.json (absent for legacy keys-only backups), an optional
  * msgpack-encoded settings.bin, and msgpack-encoded sync chunks. JSON entries
- * are parsed; binary (.bin) entries are msgpack-decoded.
+ * are parsed; binary (.bin) entries are checked to decode as msgpack and kept
+ * as their original bytes in `rawEntries`, so buildYoursWalletZip writes them
+ * back byte for byte even when the wallet's encoding is not canonical. Use
+ * decodeYoursWalletZipEntries to read their contents.
+ *
+ * The result is checked with validateYoursWalletZip unless `validate` is
+ * false; warnings are not reported here, call validateYoursWalletZip for them.
  *
  * @param zip Raw ZIP bytes (e.g. from `await file.arrayBuffer()` wrapped in a Uint8Array).
+ * @param options Set `validate: false` to skip the structural checks.
  * @returns The parsed backup contents.
- * @throws If the ZIP cannot be decompressed or is missing chromeStorage.json.
+ * @throws CorruptBackupError if the ZIP or one of its entries cannot be decoded,
+ *         or validation finds errors (e.g. missing chunks of a truncated export).
+ * @throws UnsupportedFormatError if the ZIP is missing chromeStorage.json.
  */
-export function parseYoursWalletZip(zip: Uint8Array): YoursWalletZipBackup {
-  const entries = unzipSync(zip);
+export function parseYoursWalletZip(
+  zip: Uint8Array,
+  options: YoursWalletZipParseOptions = {}
+): YoursWalletZipBackup {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(zip);
+  } catch {
+    throw new CorruptBackupError('Invalid Yours Wallet backup: not a readable ZIP archive');
+  }
   const decoder = new TextDecoder();
 
   const chromeStorageRaw = entries['chromeStorage.json'];
   if (!chromeStorageRaw) {
-    throw new Error('Invalid Yours Wallet backup: missing chromeStorage.json');
+    throw new UnsupportedFormatError('Invalid Yours Wallet backup: missing chromeStorage.json');
   }
 
   const backup: YoursWalletZipBackup = {
-    chromeStorage: JSON.parse(decoder.decode(chromeStorageRaw)) as Record<string, unknown>,
+    chromeStorage: decodeEntry(
+      'chromeStorage.json',
+      () => JSON.parse(decoder.decode(chromeStorageRaw)) as Record<string, unknown>
+    ),
   };
 
   const manifestRaw = entries['manifest.json'];
   if (manifestRaw) {
-    backup.manifest = JSON.parse(decoder.decode(manifestRaw)) as YoursWalletBackupManifest;
+    backup.manifest = decodeEntry(
+      'manifest.json',
+      () => JSON.parse(decoder.decode(manifestRaw)) as YoursWalletBackupManifest
+    );
   }
 
-  const settingsRaw = entries['settings.bin'];
-  if (settingsRaw) {
-    backup.settings = decodeMsgpack(settingsRaw);
+  const rawEntries: Record<string, Uint8Array> = {};
+  for (const name of Object.keys(entries)) {
+    if (isMsgpackEntry(name)) {
+      decodeEntry(name, () => decodeMsgpack(entries[name], MSGPACK_OPTIONS));
+      rawEntries[name] = entries[name];
+    }
+  }
+  if (Object.keys(rawEntries).length > 0) {
+    backup.rawEntries = rawEntries;
   }
 
-  const chunks: Record<string, unknown> = {};
-  for (const name of Object.keys(entries)) {
-    if (isChunkEntry(name)) {
-      chunks[name] = decodeMsgpack(entries[name]);
+  if (options.validate !== false) {
+    const { errors } = validateYoursWalletZip(backup);
+    if (errors.length > 0) {
+      throw new CorruptBackupError(
+        `Invalid Yours Wallet backup: ${errors.map(formatZipIssue).join('; ')}`
+      );
     }
   }
+
+  return backup;
+}
+
+/**
+ * Decodes the msgpack entries of a parsed Yours Wallet ZIP for inspection.
+ *
+ * Raw `rawEntries` bytes are msgpack-decoded (64-bit integers as bigint);
+ * decoded `settings` and `chunks` already on the backup are returned as they
+ * are. The backup itself is not modified.
+ *
+ * @param backup The parsed ZIP contents.
+ * @returns The decoded settings.bin and sync chunks, each omitted if absent.
+ * @throws CorruptBackupError if a raw entry is not valid msgpack.
+ */
+export function decodeYoursWalletZipEntries(backup: YoursWalletZipBackup): {
+  settings?: unknown;
+  chunks?: Record<string, unknown>;
+} {
+  const decoded: { settings?: unknown; chunks?: Record<string, unknown> } = {};
+  const raw = backup.rawEntries ?? {};
+
+  const settingsRaw = raw['settings.bin'];
+  if (settingsRaw) {
+    decoded.settings = decodeEntry('settings.bin', () =>
+      decodeMsgpack(settingsRaw, MSGPACK_OPTIONS)
+    );
+  } else if (backup.settings !== undefined) {
+    decoded.settings = backup.settings;
+  }
+
+  const chunks: Record<string, unknown> = { ...backup.chunks };
+  for (const name of Object.keys(raw).filter(isChunkEntry)) {
+    chunks[name] = decodeEntry(name, () => decodeMsgpack(raw[name], MSGPACK_OPTIONS));
+  }
   if (Object.keys(chunks).length > 0) {
-    backup.chunks = chunks;
+    decoded.chunks = chunks;
   }
+  return decoded;
+}
 
-  return backup;
+/** Formats a validation issue as "<account>: <message>". */
+function formatZipIssue(issue: YoursWalletZipIssue): string {
+  return issue.account ? `${issue.account}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Checks the structure of a parsed Yours Wallet backup ZIP: the manifest
+ * version and `chain`, that every account's `chunkCount` matches the chunk
+ * entries present, and that chunks sit in the v1 flat or v2
+ * `<identityAddress>/` layout. Missing chunks (a truncated or partially
+ * written export) are errors; unexpected extras and accounts that appear in
+ * only one of manifest and chromeStorage are warnings.
+ *
+ * @param backup The parsed ZIP contents (manifest.json as read from the ZIP).
+ * @returns Errors and warnings, each tagged with the account's identity address where it applies.
+ */
+export function validateYoursWalletZip(backup: YoursWalletZipBackup): YoursWalletZipReport {
+  const errors: YoursWalletZipIssue[] = [];
+  const warnings: YoursWalletZipIssue[] = [];
+  const chunkNames = chunkEntryNames(backup);
+  const manifest = backup.manifest as unknown;
+
+  if (manifest === undefined) {
+    if (chunkNames.length > 0 || hasSettings(backup)) {
+      warnings.push({ message: 'settings or chunks present without manifest.json' });
+    }
+    return { valid: true, errors, warnings };
+  }
+  if (typeof manifest !== 'object' || manifest === null) {
+    errors.push({ message: 'manifest.json is not an object' });
+    return { valid: false, errors, warnings };
+  }
+
+  const { version, chain, createdAt } = manifest as Record<string, unknown>;
+  if (version !== 1 && version !== 2) {
+    errors.push({ message: `unsupported manifest version ${String(version)}` });
+    return { valid: false, errors, warnings };
+  }
+  if (chain !== 'main' && chain !== 'test') {
+    errors.push({ message: `manifest chain must be 'main' or 'test', got ${String(chain)}` });
+  }
+  if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) {
+    warnings.push({ message: 'manifest createdAt is not an ISO 8601 timestamp' });
+  }
+  if (!hasSettings(backup)) {
+    warnings.push({ message: 'settings.bin is missing' });
+  }
+
+  /** Compares a declared chunkCount with the chunks found for one account (or the flat v1 set). */
+  const checkChunkCount = (declared: unknown, found: number, account?: string) => {
+    if (!Number.isInteger(declared) || (declared as number) < 0) {
+      errors.push({ account, message: 'chunkCount is not a non-negative integer' });
+    } else if (found < (declared as number)) {
+      errors.push({ account, message: `${declared} chunks declared, ${found} present` });
+    } else if (found > (declared as number)) {
+      warnings.push({ account, message: `${declared} chunks declared, ${found} present` });
+    }
+  };
+
+  if (version === 1) {
+    const { identityKey, chunkCount } = manifest as Record<string, unknown>;
+    if (typeof identityKey !== 'string') {
+      errors.push({ message: 'manifest identityKey is missing' });
+    }
+    const nested = chunkNames.filter((name) => name.includes('/'));
+    for (const name of nested) {
+      errors.push({ message: `${name} must be at the ZIP root for a v1 backup` });
+    }
+    checkChunkCount(chunkCount, chunkNames.length - nested.length);
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
+  const { accounts } = manifest as Record<string, unknown>;
+  if (!Array.isArray(accounts)) {
+    errors.push({ message: 'manifest accounts is not an array' });
+    return { valid: false, errors, warnings };
+  }
+
+  const storageAccounts = backup.chromeStorage.accounts;
+  const storageAddresses = new Set(
+    typeof storageAccounts === 'object' && storageAccounts !== null
+      ? Object.keys(storageAccounts)
+      : []
+  );
+  const manifestAddresses = new Set<string>();
+  for (const [index, entry] of accounts.entries()) {
+    const { identityKey, identityAddress, name, chunkCount } = (entry ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (typeof identityAddress !== 'string' || identityAddress.length === 0) {
+      errors.push({ message: `manifest account ${index + 1} has no identityAddress` });
+      continue;
+    }
+    const account = identityAddress;
+    if (manifestAddresses.has(account)) {
+      errors.push({ account, message: 'listed twice in the manifest' });
+      continue;
+    }
+    manifestAddresses.add(account);
+    if (typeof identityKey !== 'string')
+      errors.push({ account, message: 'identityKey is missing' });
+    if (typeof name !== 'string') warnings.push({ account, message: 'name is missing' });
+    const found = chunkNames.filter((chunk) => chunk.startsWith(`${account}/`)).length;
+    checkChunkCount(chunkCount, found, account);
+    if (!storageAddresses.has(account)) {
+      warnings.push({ account, message: 'not present in chromeStorage accounts' });
+    }
+  }
+
+  for (const name of chunkNames) {
+    const folder = name.includes('/') ? name.slice(0, name.lastIndexOf('/')) : undefined;
+    if (folder === undefined || !manifestAddresses.has(folder)) {
+      errors.push({ message: `${name} is not under a manifest account folder` });
+    }
+  }
+  for (const address of storageAddresses) {
+    if (!manifestAddresses.has(address)) {
+      warnings.push({
+        account: address,
+        message: 'chromeStorage account missing from the manifest',
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Checks that a chunk entry name fits the manifest layout: flat for v1 and
+ * legacy backups, under an account's `<identityAddress>/` folder for v2.
+ */
+function chunkLayoutError(name: string, manifest?: YoursWalletBackupManifest): string | null {
+  if (!isChunkEntry(name)) return `${name} is not a chunk-XXXX.bin entry`;
+  const folder = name.includes('/') ? name.slice(0, name.lastIndexOf('/')) : undefined;
+  if (manifest?.version === 2) {
+    const addresses = manifest.accounts.map((account) => account.identityAddress);
+    return folder !== undefined && addresses.includes(folder)
+      ? null
+      : `${name} is not under a manifest account folder`;
+  }
+  return folder === undefined ? null : `${name} must be at the ZIP root for a v1 backup`;
+}
+
+/**
+ * Builds a Yours Wallet master backup ZIP, the inverse of parseYoursWalletZip.
+ *
+ * Writes chromeStorage.json, manifest.json, settings.bin and the sync chunks.
+ * `rawEntries` are written unchanged; decoded `settings` and `chunks` are
+ * msgpack-encoded, with `rawEntries` taking precedence for the same entry.
+ * Chunks keep their entry names, so the v1 flat and v2
+ * `<identityAddress>/chunk-XXXX.bin` layouts are preserved.
+ * `parseYoursWalletZip(buildYoursWalletZip(backup))` equals the input apart
+ * from `label`, `type` and `createdAt`, which are not part of the ZIP, and
+ * decoded entries, which come back as `rawEntries`.
+ *
+ * @param backup The ZIP contents to write.
+ * @returns Raw ZIP bytes Yours Wallet can restore from.
+ * @throws InvalidPayloadError if a chunk name does not fit the manifest layout,
+ *         or `rawEntries` holds something other than settings.bin and chunk bytes.
+ */
+export function buildYoursWalletZip(backup: YoursWalletZipBackup): Uint8Array {
+  const raw = backup.rawEntries ?? {};
+  for (const [name, bytes] of Object.entries(raw)) {
+    if (!isMsgpackEntry(name) || !(bytes instanceof Uint8Array)) {
+      throw new InvalidPayloadError(
+        `Invalid Yours Wallet backup: raw entry ${name} is not settings.bin or chunk bytes`
+      );
+    }
+  }
+
+  const entries: Record<string, Uint8Array> = {};
+  if (backup.manifest) entries['manifest.json'] = strToU8(JSON.stringify(backup.manifest));
+  entries['chromeStorage.json'] = strToU8(JSON.stringify(backup.chromeStorage));
+  if (raw['settings.bin']) entries['settings.bin'] = raw['settings.bin'];
+  else if (backup.settings !== undefined)
+    entries['settings.bin'] = encodeMsgpack(backup.settings, MSGPACK_OPTIONS);
+
+  for (const name of chunkEntryNames(backup)) {
+    const layoutError = chunkLayoutError(name, backup.manifest);
+    if (layoutError) {
+      throw new InvalidPayloadError(`Invalid Yours Wallet backup: ${layoutError}`);
+    }
+    entries[name] = raw[name] ?? encodeMsgpack(backup.chunks?.[name], MSGPACK_OPTIONS);
+  }
+
+  return zipSync(entries);
 }
 
 /**
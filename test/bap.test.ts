@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { HD, Mnemonic, PrivateKey } from '@bsv/sdk';
+import { bapIdFromAddress, encryptBapIds } from '../src/bap';
+import {
+  CorruptBackupError,
+  InvalidPayloadError,
+  listBapIdentities,
+  UnsupportedFormatError,
+} from '../src/index';
+import type { BapMasterBackupLegacy, MasterBackupType42 } from '../src/interfaces';
+
+describe('listBapIdentities', () => {
+  const mnemonic = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+  const root = HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed());
+  const rootPath = "m/424150'/0'/0'/0'/0'/0'";
+  const rootAddress = root.derive(rootPath).pubKey.toAddress();
+  // An identity as exported by bsv-bap's exportIds()
+  const identity = {
+    name: 'Alice',
+    description: '',
+    identityKey: bapIdFromAddress(rootAddress),
+    rootPath,
+    rootAddress,
+    previousPath: rootPath,
+    currentPath: "m/424150'/0'/0'/0'/0'/1'",
+    idSeed: '',
+    identityAttributes: { name: { value: 'Alice', nonce: 'n' } },
+    lastIdPath: '',
+  };
+  const legacy: BapMasterBackupLegacy = { ids: '', xprv: root.toString(), mnemonic };
+  legacy.ids = encryptBapIds(legacy, { lastIdPath: rootPath, ids: [identity] });
+
+  it('lists the identities in a legacy master backup', () => {
+    expect(identity.identityKey).toBe('4UVMAS9WzSLVhSy57AFkuGFVR5ij');
+    expect(listBapIdentities(legacy)).toEqual([
+      {
+        identityKey: '4UVMAS9WzSLVhSy57AFkuGFVR5ij',
+        name: 'Alice',
+        rootAddress,
+        rootPath,
+        currentPath: "m/424150'/0'/0'/0'/0'/1'",
+      },
+    ]);
+  });
+
+  it('reads Type 42 ids and the array format of early bsv-bap exports', () => {
+    const rootPk = PrivateKey.fromRandom().toWif();
+    const type42: MasterBackupType42 = { ids: '', rootPk };
+    const unnamed = { ...identity, name: '', rootPath: 'bap:0', currentPath: 'bap:0' };
+    type42.ids = encryptBapIds(type42, [unnamed]);
+    expect(listBapIdentities(type42)).toEqual([
+      { identityKey: identity.identityKey, rootAddress, rootPath: 'bap:0', currentPath: 'bap:0' },
+    ]);
+  });
+
+  it('rejects backups without readable ids', () => {
+    expect(() => listBapIdentities({ wif: PrivateKey.fromRandom().toWif() })).toThrow(
+      UnsupportedFormatError
+    );
+    expect(() => listBapIdentities({ ...legacy, ids: 'opaque' })).toThrow(CorruptBackupError);
+    expect(() => listBapIdentities({ ...legacy, xprv: 'xprv-typo' })).toThrow(InvalidPayloadError);
+    const incomplete = { ...legacy, ids: encryptBapIds(legacy, { ids: [{ name: 'Bob' }] }) };
+    expect(() => listBapIdentities(incomplete)).toThrow('identity 1 is incomplete');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'bun:test';
+import { PrivateKey } from '@bsv/sdk';
+import {
+  addBundleEntry,
+  type BundleBackup,
+  decryptBackup,
+  encryptBackup,
+  getBackupType,
+  getBundleEntry,
+  InvalidOptionsError,
+  isBundleBackup,
+  removeBundleEntry,
+  validateBackupKeys,
+} from '../src/index';
+
+describe('Bundle backups', () => {
+  const passphrase = 'bundleP@ssphrase';
+  const wif = PrivateKey.fromRandom().toWif();
+  const vault = { encryptedVault: 'opaque-vault' };
+  const bundle: BundleBackup = {
+    label: 'Everything',
+    entries: [
+      { name: 'account', backup: { wif, id: 'bapId', label: 'Alice' } },
+      { name: 'vault', backup: vault },
+    ],
+  };
+
+  it('adds, replaces, reads and removes entries without changing the input', () => {
+    const account = getBundleEntry(bundle, 'account');
+    expect(account).toEqual({ wif, id: 'bapId', label: 'Alice' });
+
+    const added = addBundleEntry(bundle, 'paper', { wif });
+    expect(added.entries.map((entry) => entry.name)).toEqual(['account', 'vault', 'paper']);
+    expect(bundle.entries).toHaveLength(2);
+    expect(() => addBundleEntry(bundle, 'vault', { wif })).toThrow(InvalidOptionsError);
+
+    const replaced = addBundleEntry(bundle, 'account', { wif }, { replace: true });
+    expect(replaced.entries.map((entry) => entry.name)).toEqual(['account', 'vault']);
+    expect(getBundleEntry(replaced, 'account')).toEqual({ wif });
+
+    expect(removeBundleEntry(bundle, 'account').entries).toEqual([
+      { name: 'vault', backup: vault },
+    ]);
+    expect(() => removeBundleEntry(bundle, 'missing')).toThrow('No entry named "missing"');
+  });
+
+  it('rejects unnamed entries and nested bundles', () => {
+    expect(() => addBundleEntry(bundle, '', { wif })).toThrow(InvalidOptionsError);
+    expect(() => addBundleEntry(bundle, 'nested', { entries: [] })).toThrow(
+      'cannot contain other bundles'
+    );
+  });
+
+  it('round-trips through encryptBackup with the Bundle type', async () => {
+    expect(getBackupType(bundle)).toBe('Bundle');
+    const encrypted = await encryptBackup(bundle, passphrase, 1000);
+    const decrypted = await decryptBackup(encrypted, passphrase);
+    expect(isBundleBackup(decrypted)).toBe(true);
+    expect(decrypted.type).toBe('Bundle');
+    expect(decrypted).toMatchObject({ label: 'Everything', entries: bundle.entries });
+
+    // Bundles written without the discriminator are still recognised
+    const untyped = await encryptBackup({ entries: bundle.entries }, passphrase, 1000);
+    expect(getBackupType(await decryptBackup(untyped, passphrase))).toBe('Bundle');
+  });
+
+  it('keeps binary Yours Wallet ZIP entries intact', async () => {
+    const zip = { chromeStorage: { accounts: {} }, settings: new Uint8Array([1, 2, 3]) };
+    const withZip = addBundleEntry(bundle, 'yours', zip);
+    const decrypted = await decryptBackup(
+      await encryptBackup(withZip, passphrase, 1000),
+      passphrase
+    );
+    expect(getBundleEntry(decrypted as BundleBackup, 'yours')).toEqual(zip);
+  });
+
+  it('rejects invalid entries on encryption', async () => {
+    const invalid = [
+      {
+        entries: [
+          { name: 'a', backup: { wif } },
+          { name: 'a', backup: { wif } },
+        ],
+      },
+      { entries: [{ name: 'a', backup: { notABackup: true } }] },
+      { entries: [{ name: 'a', backup: { entries: [] } }] },
+      { type: 'Bundle', entries: 'none' },
+    ];
+    for (const payload of invalid) {
+      // @ts-expect-error Testing invalid bundle payloads
+      await expect(encryptBackup(payload, passphrase, 1000)).rejects.toThrow('Invalid payload');
+    }
+  });
+
+  it('validates the keys of every entry, prefixed with the entry name', () => {
+    const broken = addBundleEntry(bundle, 'paper', { wif: `${wif.slice(0, -1)}x` });
+    expect(validateBackupKeys(broken)).toEqual([
+      {
+        field: 'paper/wif',
+        code: 'invalid-wif',
+        message: 'paper: wif is not valid Base58Check (bad character or checksum).',
+      },
+    ]);
+    expect(validateBackupKeys(bundle)).toEqual([]);
+  });
+});
@@ -1,4 +1,5 @@
 import { beforeAll, describe, expect, it } from 'bun:test';
+import { PrivateKey, Utils } from '@bsv/sdk';
 import {
   DEFAULT_PBKDF2_ITERATIONS,
   decryptData,
@@ -6,11 +7,22 @@ import {
   LEGACY_PBKDF2_ITERATIONS,
   RECOMMENDED_PBKDF2_ITERATIONS,
 } from '../src/crypto';
+import { parseEnvelope } from '../src/envelope';
+import {
+  addKeyslot,
+  decryptBackup,
+  encryptBackup,
+  InvalidOptionsError,
+  InvalidPayloadError,
+  inspectBackup,
+  removeKeyslot,
+} from '../src/index';
 import type {
   BapAccountBackup,
   BapMasterBackup,
   EncryptedBackup,
   OneSatBackup,
+  VaultBackup,
   WifBackup,
 } from '../src/interfaces';
 
@@ -360,5 +372,183 @@ describe('Crypto Functions', () => {
         decryptData(encryptedWithDefaultIterations, passphrase, [1000, 2000])
       ).rejects.toThrow(); // General decryption failure message
     });
+
+    it('should reject a payload missing the fields its declared type requires', async () => {
+      // encryptData does not validate, so this stands in for a crafted payload
+      const declaredOnly = { type: 'Legacy', ids: 'someIds' } as unknown as BapMasterBackup;
+      const encrypted = await encryptData(declaredOnly, passphrase, 1000);
+      const attempt = decryptData(encrypted, passphrase, 1000);
+      await expect(attempt).rejects.toBeInstanceOf(InvalidPayloadError);
+      await expect(attempt).rejects.toThrow(
+        "Invalid backup structure after decoding: missing fields for type 'Legacy'."
+      );
+    });
+  });
+});
+
+describe('Argon2id key derivation', () => {
+  const passphrase = 'argon2idP@ssphrase';
+  const payload: WifBackup = { wif: 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo' };
+  // Small costs keep the test fast; production defaults live in DEFAULT_ARGON2ID_PARAMS.
+  const argon2 = { memory: 256, time: 1, parallelism: 1 };
+
+  it('should round-trip a payload encrypted with Argon2id', async () => {
+    const encrypted = await encryptData(payload, passphrase, { kdf: 'argon2id', argon2 });
+    const decrypted = (await decryptData(encrypted, passphrase)) as WifBackup;
+    expect(decrypted.wif).toBe(payload.wif);
+  });
+
+  it('should record the Argon2id parameters in the envelope header', async () => {
+    const encrypted = await encryptData(payload, passphrase, { kdf: 'argon2id', argon2 });
+    const { header } = parseEnvelope(Uint8Array.from(Utils.toArray(encrypted, 'base64')));
+    expect(header.kdf).toMatchObject({ id: 'argon2id', ...argon2 });
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const encrypted = await encryptData(payload, passphrase, { kdf: 'argon2id', argon2 });
+    await expect(decryptData(encrypted, 'wrongPassphrase!')).rejects.toThrow(
+      /Decryption failed: Invalid passphrase or corrupted data/
+    );
+  });
+
+  it('should reject invalid Argon2id options in encryptBackup', async () => {
+    await expect(
+      encryptBackup(payload, passphrase, { kdf: 'argon2id', argon2: { memory: 0 } })
+    ).rejects.toThrow('Invalid options: argon2.memory must be a positive integer.');
+  });
+});
+
+describe('Recipient public-key encryption', () => {
+  const payload: WifBackup = { wif: 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo' };
+  const alice = PrivateKey.fromRandom();
+  const bob = PrivateKey.fromRandom();
+  const alicePub = alice.toPublicKey().toString();
+  const bobPub = bob.toPublicKey().toString();
+
+  it('should round-trip a payload encrypted to one recipient', async () => {
+    const encrypted = await encryptBackup(payload, { recipients: [alicePub] });
+    const decrypted = (await decryptBackup(encrypted, { privateKey: alice.toWif() })) as WifBackup;
+    expect(decrypted.wif).toBe(payload.wif);
+  });
+
+  it('should let every recipient decrypt, with WIF or hex keys', async () => {
+    const encrypted = await encryptBackup(payload, { recipients: [alicePub, bobPub] });
+    const byAlice = (await decryptBackup(encrypted, { privateKey: alice.toWif() })) as WifBackup;
+    const byBob = (await decryptBackup(encrypted, { privateKey: bob.toHex() })) as WifBackup;
+    expect(byAlice.wif).toBe(payload.wif);
+    expect(byBob.wif).toBe(payload.wif);
+  });
+
+  it('should list recipients in inspectBackup', async () => {
+    const encrypted = await encryptBackup(payload, { recipients: [alicePub, bobPub] });
+    expect(inspectBackup(encrypted).kdf).toEqual({
+      id: 'ecies-recipients',
+      recipients: [alicePub, bobPub],
+    });
+  });
+
+  it('should reject a private key that is not a recipient', async () => {
+    const encrypted = await encryptBackup(payload, { recipients: [alicePub] });
+    await expect(decryptBackup(encrypted, { privateKey: bob.toWif() })).rejects.toThrow(
+      'Decryption failed: Private key is not a recipient of this backup.'
+    );
+  });
+
+  it('should reject a malformed private key as an invalid option', async () => {
+    const encrypted = await encryptBackup(payload, { recipients: [alicePub] });
+    const attempt = decryptBackup(encrypted, { privateKey: 'not-a-key' });
+    await expect(attempt).rejects.toBeInstanceOf(InvalidOptionsError);
+    await expect(attempt).rejects.toThrow(
+      'Invalid options: privateKey must be a WIF or 64-character hex private key.'
+    );
+  });
+
+  it('should require a private key for recipient backups and a passphrase otherwise', async () => {
+    const forRecipient = await encryptBackup(payload, { recipients: [alicePub] });
+    await expect(decryptBackup(forRecipient, 'somePassphrase')).rejects.toThrow(
+      /a private key is required/
+    );
+    const forPassphrase = await encryptBackup(payload, 'somePassphrase', LEGACY_PBKDF2_ITERATIONS);
+    await expect(decryptBackup(forPassphrase, { privateKey: alice.toWif() })).rejects.toThrow(
+      /Backup is passphrase-encrypted/
+    );
+  });
+
+  it('should reject invalid recipient lists', async () => {
+    await expect(encryptBackup(payload, { recipients: [] })).rejects.toThrow(
+      'Invalid options: recipients must list between 1 and 255 public keys.'
+    );
+    await expect(encryptBackup(payload, { recipients: ['02abcd'] })).rejects.toThrow(
+      'Invalid options: 02abcd is not a valid public key.'
+    );
+  });
+});
+
+describe('Passphrase keyslots', () => {
+  const payload: VaultBackup = { encryptedVault: 'vault-data', label: 'Org vault' };
+  const alice = 'aliceP@ssphrase';
+  const bob = 'bobP@ssphrase1';
+  // Low iteration counts keep the test fast.
+  const iterations = 1000;
+
+  const ciphertextOf = (encrypted: string) =>
+    Utils.toHex(
+      Array.from(parseEnvelope(Uint8Array.from(Utils.toArray(encrypted, 'base64'))).ciphertext)
+    );
+
+  it('should let each keyslot passphrase decrypt the same backup', async () => {
+    const encrypted = await encryptBackup(payload, alice, { iterations, keyslots: true });
+    const shared = await addKeyslot(encrypted, alice, bob, iterations);
+
+    expect(inspectBackup(shared).kdf).toEqual({
+      id: 'keyslots',
+      slots: [
+        { id: 'pbkdf2-sha256', iterations },
+        { id: 'pbkdf2-sha256', iterations },
+      ],
+    });
+    expect(((await decryptBackup(shared, alice)) as VaultBackup).encryptedVault).toBe('vault-data');
+    expect(((await decryptBackup(shared, bob)) as VaultBackup).encryptedVault).toBe('vault-data');
+    await expect(decryptBackup(shared, 'wrongP@ssphrase')).rejects.toThrow(
+      /Decryption failed: Invalid passphrase or corrupted data/
+    );
+  });
+
+  it('should add and remove keyslots without re-encrypting the payload', async () => {
+    const encrypted = await encryptBackup(payload, alice, { iterations, keyslots: true });
+    const shared = await addKeyslot(encrypted, alice, bob, iterations);
+    const revoked = await removeKeyslot(shared, alice, 1);
+
+    expect(ciphertextOf(shared)).toBe(ciphertextOf(encrypted));
+    expect(ciphertextOf(revoked)).toBe(ciphertextOf(encrypted));
+    expect(((await decryptBackup(revoked, alice)) as VaultBackup).label).toBe('Org vault');
+    await expect(decryptBackup(revoked, bob)).rejects.toThrow(/Invalid passphrase/);
+  });
+
+  it('should convert a single-passphrase backup when adding a keyslot', async () => {
+    const encrypted = await encryptBackup(payload, alice, { iterations, publicMetadata: true });
+    const shared = await addKeyslot(encrypted, alice, bob, iterations);
+
+    const info = inspectBackup(shared);
+    expect(info.kdf?.id).toBe('keyslots');
+    expect(info.metadata?.label).toBe('Org vault');
+    expect(((await decryptBackup(shared, bob)) as VaultBackup).encryptedVault).toBe('vault-data');
+  });
+
+  it('should reject adding a keyslot with a wrong passphrase', async () => {
+    const encrypted = await encryptBackup(payload, alice, { iterations, keyslots: true });
+    await expect(addKeyslot(encrypted, 'wrongP@ssphrase', bob, iterations)).rejects.toThrow(
+      /Invalid passphrase/
+    );
+  });
+
+  it('should refuse to remove the only or a missing keyslot', async () => {
+    const encrypted = await encryptBackup(payload, alice, { iterations, keyslots: true });
+    await expect(removeKeyslot(encrypted, alice, 0)).rejects.toThrow(
+      'Invalid keyslot: Cannot remove the only keyslot.'
+    );
+    await expect(removeKeyslot(encrypted, alice, 3)).rejects.toThrow(
+      'Invalid keyslot: Backup has no keyslot 3.'
+    );
   });
 });
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'bun:test';
+import { HD, Mnemonic, PrivateKey } from '@bsv/sdk';
+import { encryptBapIds } from '../src/bap';
+import {
+  CorruptBackupError,
+  deriveAccountBackup,
+  deriveFromBackup,
+  extractAccountBackup,
+  InvalidOptionsError,
+  InvalidPayloadError,
+  UnsupportedFormatError,
+} from '../src/index';
+import type { BapMasterBackupLegacy, MasterBackupType42 } from '../src/interfaces';
+
+describe('deriveFromBackup', () => {
+  const mnemonic = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+  const root = HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed());
+  const legacy: BapMasterBackupLegacy = { ids: 'encrypted-ids', xprv: root.toString(), mnemonic };
+  const rootPk = PrivateKey.fromRandom();
+  const type42: MasterBackupType42 = { ids: 'encrypted-ids', rootPk: rootPk.toWif() };
+
+  it('derives BIP32 children of a legacy master backup', () => {
+    const path = "m/44'/236'/0'/1/0";
+    expect(deriveFromBackup(legacy, { path })).toEqual({
+      wif: root.derive(path).privKey.toWif(),
+      label: path,
+    });
+    expect(deriveFromBackup(legacy, { path, network: 'testnet' }).wif).toBe(
+      root.derive(path).privKey.toWif([0xef])
+    );
+  });
+
+  it('derives BRC-42 children of a Type 42 master backup', () => {
+    const counterparty = PrivateKey.fromRandom().toPublicKey();
+    expect(deriveFromBackup(type42, { invoiceNumber: '2-app-1' })).toEqual({
+      wif: rootPk.deriveChild(rootPk.toPublicKey(), '2-app-1').toWif(),
+      label: '2-app-1',
+    });
+    expect(
+      deriveFromBackup(type42, { invoiceNumber: '2-app-1', counterparty: counterparty.toString() })
+        .wif
+    ).toBe(rootPk.deriveChild(counterparty, '2-app-1').toWif());
+    expect(deriveFromBackup(type42, { invoiceNumber: '1-x-1', counterparty: 'anyone' }).wif).toBe(
+      rootPk.deriveChild(new PrivateKey(1).toPublicKey(), '1-x-1').toWif()
+    );
+  });
+
+  it("rejects options that do not match the backup's scheme", () => {
+    expect(() => deriveFromBackup(legacy, { invoiceNumber: '2-app-1' })).toThrow(
+      InvalidOptionsError
+    );
+    expect(() => deriveFromBackup(legacy, { path: '44/0' })).toThrow('expected a BIP32 path');
+    expect(() => deriveFromBackup(type42, { path: 'm/0' })).toThrow(InvalidOptionsError);
+    expect(() => deriveFromBackup(type42, { invoiceNumber: '1-x', counterparty: 'bob' })).toThrow(
+      'counterparty must be'
+    );
+    expect(() => deriveFromBackup({ wif: rootPk.toWif() }, { path: 'm/0' })).toThrow(
+      UnsupportedFormatError
+    );
+    expect(() => deriveFromBackup(legacy, { path: "m/0/2147483648'" })).toThrow(
+      InvalidOptionsError
+    );
+  });
+
+  it('rejects master backups whose root key does not parse', () => {
+    expect(() => deriveFromBackup({ ...legacy, xprv: 'xprv-typo' }, { path: 'm/0' })).toThrow(
+      new InvalidPayloadError('Invalid backup: xprv is not a valid extended private key.')
+    );
+    expect(() =>
+      deriveFromBackup({ ...type42, rootPk: 'not-a-wif' }, { invoiceNumber: '2-app-1' })
+    ).toThrow(new InvalidPayloadError('Invalid backup: rootPk is not a valid WIF private key.'));
+    expect(() => deriveAccountBackup({ ...type42, rootPk: 'not-a-wif' }, 0)).toThrow(
+      InvalidPayloadError
+    );
+  });
+});
+
+describe('deriveAccountBackup', () => {
+  // Identity keys and member key produced by bsv-bap 0.1.24's newId() for this mnemonic
+  const mnemonic = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+  const legacy: BapMasterBackupLegacy = {
+    ids: 'encrypted-ids',
+    xprv: HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed()).toString(),
+    mnemonic,
+  };
+
+  it('matches the identities bsv-bap creates for a legacy master', () => {
+    expect(deriveAccountBackup(legacy, 0)).toEqual({
+      wif: 'L4ZEMWHecJrzyadpXGtWwiV114rQF51xTy8Y8ZbyuPcMZXuzs835',
+      id: '4UVMAS9WzSLVhSy57AFkuGFVR5ij',
+      label: 'Identity 0',
+    });
+    expect(deriveAccountBackup(legacy, 1).id).toBe('4D51S9XCznd4fSoZuNVb7oQfBJ1n');
+  });
+
+  it('derives Type 42 identities at bap:<index>', () => {
+    const rootPk = PrivateKey.fromRandom();
+    const backup: MasterBackupType42 = { ids: 'encrypted-ids', rootPk: rootPk.toWif() };
+    const memberKey = rootPk.deriveChild(rootPk.toPublicKey(), 'bap:2');
+    expect(deriveAccountBackup(backup, 2, { network: 'testnet' }).wif).toBe(
+      memberKey.toWif([0xef])
+    );
+  });
+
+  it('rejects invalid identity indexes', () => {
+    expect(() => deriveAccountBackup(legacy, -1)).toThrow(InvalidOptionsError);
+    expect(() => deriveAccountBackup(legacy, 1.5)).toThrow(InvalidOptionsError);
+  });
+});
+
+describe('extractAccountBackup', () => {
+  const mnemonic = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+  const legacy: BapMasterBackupLegacy = {
+    ids: '',
+    xprv: HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed()).toString(),
+    mnemonic,
+  };
+  // Identities as exported by bsv-bap 0.1.24: a rotated one, and one created with an id seed
+  const rotated = {
+    name: 'Alice',
+    identityKey: '4UVMAS9WzSLVhSy57AFkuGFVR5ij',
+    rootPath: "m/424150'/0'/0'/0'/0'/0'",
+    rootAddress: '1CqRf6h6QM8ibAksFN5Kd5BDFuZ1zHRFiH',
+    currentPath: "m/424150'/0'/0'/0'/0'/2'",
+    idSeed: '',
+  };
+  const seeded = {
+    name: 'Seeded',
+    identityKey: 'jCJuXHF9TtHPgxwGvDAXSjYNcRv',
+    rootPath: "m/424150'/0'/0'/0'/0'/0'",
+    rootAddress: '12PXDi2nH7kpW2KsVe8hBUPUQvGYBFVAhj',
+    currentPath: "m/424150'/0'/0'/0'/0'/1'",
+    idSeed: 'my-seed',
+  };
+  legacy.ids = encryptBapIds(legacy, { lastIdPath: rotated.rootPath, ids: [rotated, seeded] });
+
+  it("exports the identity's current member key, named after the identity", () => {
+    const root = HD.fromString(legacy.xprv);
+    expect(extractAccountBackup(legacy, rotated.identityKey)).toEqual({
+      wif: root.derive(rotated.currentPath).privKey.toWif(),
+      id: rotated.identityKey,
+      label: 'Alice',
+    });
+    expect(extractAccountBackup(legacy, seeded.identityKey)).toEqual({
+      wif: 'KxTvy38jTYJZ95TKRcVoA9hcnpQgMAeYudgv7bqNTT71yFefH9dz',
+      id: seeded.identityKey,
+      label: 'Seeded',
+    });
+  });
+
+  it('extracts Type 42 identities', () => {
+    const rootPk = PrivateKey.fromRandom();
+    const type42: MasterBackupType42 = { ids: '', rootPk: rootPk.toWif() };
+    const expected = deriveAccountBackup(type42, 0);
+    const identity = { identityKey: expected.id, rootPath: 'bap:0', currentPath: 'bap:0' };
+    type42.ids = encryptBapIds(type42, { lastIdPath: 'bap:0', ids: [identity] });
+    expect(extractAccountBackup(type42, expected.id, { network: 'testnet' })).toEqual({
+      wif: rootPk.deriveChild(rootPk.toPublicKey(), 'bap:0').toWif([0xef]),
+      id: expected.id,
+      label: expected.id,
+    });
+  });
+
+  it('rejects unknown identities and identities of another key', () => {
+    expect(() => extractAccountBackup(legacy, 'unknown')).toThrow(InvalidOptionsError);
+    const foreign = { ...rotated, identityKey: 'foreignId' };
+    const withForeign = { ...legacy, ids: encryptBapIds(legacy, { ids: [foreign] }) };
+    expect(() => extractAccountBackup(withForeign, 'foreignId')).toThrow(CorruptBackupError);
+  });
+});
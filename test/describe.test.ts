@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'bun:test';
+import { ECIES, HD, Mnemonic, PrivateKey, type PublicKey, Utils } from '@bsv/sdk';
+import { describeBackup, InvalidPayloadError } from '../src/index';
+import type {
+  BapAccountBackup,
+  BapMasterBackupLegacy,
+  MasterBackupType42,
+  OneSatBackup,
+} from '../src/interfaces';
+import { deriveYoursWalletKeys } from '../src/yours-wallet';
+
+const ENCRYPTION_PATH = "m/424150'/2147483647'/2147483647'";
+
+/** Encrypts an identities export the way bsv-bap's exportIds() does. */
+function encryptIds(ids: unknown, to: PublicKey): string {
+  return Utils.toBase64(ECIES.electrumEncrypt(Utils.toArray(JSON.stringify(ids), 'utf8'), to));
+}
+
+describe('describeBackup', () => {
+  const mnemonic = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+  const identities = {
+    lastIdPath: "/0'/0'/1'",
+    ids: [
+      { identityKey: 'idKeyOne', rootAddress: '1Root', rootPath: "m/424150'/0'/0'/0'/0'/1'" },
+      { identityKey: 'idKeyTwo', rootAddress: '1Other', rootPath: "m/424150'/0'/0'/0'/0'/2'" },
+    ],
+  };
+
+  it('lists public keys and addresses of every key without secrets', () => {
+    const backup: OneSatBackup = {
+      ordPk: PrivateKey.fromRandom().toWif(),
+      payPk: PrivateKey.fromRandom().toWif(),
+      identityPk: PrivateKey.fromRandom().toWif(),
+      label: 'Ordinals',
+      type: 'OneSat',
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+    const description = describeBackup(backup);
+    const payKey = PrivateKey.fromWif(backup.payPk).toPublicKey();
+
+    expect(description.type).toBe('OneSat');
+    expect(description.label).toBe('Ordinals');
+    expect(description.createdAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(description.keys.map((key) => key.field)).toEqual(['payPk', 'ordPk', 'identityPk']);
+    expect(description.keys[0]).toEqual({
+      field: 'payPk',
+      publicKey: payKey.toString(),
+      addresses: { mainnet: payKey.toAddress(), testnet: payKey.toAddress('testnet') },
+    });
+    const printed = JSON.stringify(description);
+    for (const wif of [backup.ordPk, backup.payPk, backup.identityPk]) {
+      expect(printed).not.toContain(wif);
+    }
+  });
+
+  it('includes the derivation paths of Yours Wallet keys', () => {
+    const { keys } = describeBackup(deriveYoursWalletKeys(mnemonic));
+    expect(keys.map((key) => [key.field, key.path])).toEqual([
+      ['payPk', "m/44'/236'/0'/1/0"],
+      ['ordPk', "m/44'/236'/1'/0/0"],
+      ['identityPk', "m/0'/236'/0'/0/0"],
+    ]);
+  });
+
+  it('describes a legacy master by its xprv root and the identities in its ids', () => {
+    const hd = HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed());
+    const backup: BapMasterBackupLegacy = {
+      ids: encryptIds(identities, hd.derive(ENCRYPTION_PATH).pubKey),
+      xprv: hd.toString(),
+      mnemonic,
+    };
+    const description = describeBackup(backup);
+
+    expect(description.type).toBe('Legacy');
+    expect(description.xpub).toBe(hd.toPublic().toString());
+    expect(description.keys).toEqual([
+      {
+        field: 'xprv',
+        publicKey: hd.pubKey.toString(),
+        addresses: { mainnet: hd.pubKey.toAddress(), testnet: hd.pubKey.toAddress('testnet') },
+      },
+    ]);
+    expect(description.identityKeys).toEqual(['idKeyOne', 'idKeyTwo']);
+    expect(JSON.stringify(description)).not.toContain(mnemonic);
+  });
+
+  it('reads Type 42 ids with the Type 42 encryption key', () => {
+    const rootPk = PrivateKey.fromRandom();
+    const encryptionKey = rootPk.deriveChild(rootPk.toPublicKey(), ENCRYPTION_PATH);
+    const backup: MasterBackupType42 = {
+      ids: encryptIds(identities, encryptionKey.toPublicKey()),
+      rootPk: rootPk.toWif(),
+    };
+    const description = describeBackup(backup);
+    expect(description.keys.map((key) => key.publicKey)).toEqual([rootPk.toPublicKey().toString()]);
+    expect(description.identityKeys).toEqual(['idKeyOne', 'idKeyTwo']);
+
+    // ids that do not decrypt are left out rather than failing the description
+    expect(describeBackup({ ...backup, ids: 'opaque' }).identityKeys).toBeUndefined();
+  });
+
+  it('reports an account backup id as its identity key', () => {
+    const backup: BapAccountBackup = { wif: PrivateKey.fromRandom().toWif(), id: 'bapId' };
+    expect(describeBackup(backup).identityKeys).toEqual(['bapId']);
+  });
+
+  it('describes keyless backups and rejects malformed keys', () => {
+    expect(describeBackup({ encryptedVault: 'blob' })).toEqual({ type: 'Vault', keys: [] });
+    expect(() => describeBackup({ wif: 'not-a-wif' })).toThrow(InvalidPayloadError);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'bun:test';
+import { Utils } from '@bsv/sdk';
+import { decryptData, encryptData, LEGACY_PBKDF2_ITERATIONS } from '../src/crypto';
+import {
+  ENVELOPE_VERSION,
+  encodeEnvelopeHeader,
+  hasEnvelopeMagic,
+  MAX_ARGON2ID_PARAMS,
+  MAX_PBKDF2_ITERATIONS,
+  MIN_PBKDF2_ITERATIONS,
+  type Pbkdf2Params,
+  parseEnvelope,
+} from '../src/envelope';
+import {
+  CorruptBackupError,
+  decryptBackup,
+  encryptBackup,
+  InvalidOptionsError,
+  inspectBackup,
+} from '../src/index';
+import type { WifBackup } from '../src/interfaces';
+
+const { toArray, toBase64 } = Utils;
+
+describe('Versioned envelope', () => {
+  const passphrase = 'envelopeP@ssphrase';
+  const wifPayload: WifBackup = {
+    wif: 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo',
+    label: 'Envelope WIF',
+  };
+
+  const decode = (encrypted: string) => Uint8Array.from(toArray(encrypted, 'base64'));
+
+  it('should round-trip header fields through encode and parse', () => {
+    const salt = Uint8Array.from([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]);
+    const { bytes } = encodeEnvelopeHeader({
+      cipher: 'aes-256-gcm',
+      kdf: { id: 'pbkdf2-sha256', iterations: 123456, salt },
+    });
+    const withBody = new Uint8Array(bytes.length + 12 + 32);
+    withBody.set(bytes, 0);
+
+    expect(hasEnvelopeMagic(withBody)).toBe(true);
+    const parsed = parseEnvelope(withBody);
+    expect(parsed.header.version).toBe(ENVELOPE_VERSION);
+    expect(parsed.header.cipher).toBe('aes-256-gcm');
+    expect(parsed.header.kdf).toMatchObject({ id: 'pbkdf2-sha256', iterations: 123456 });
+    expect(Array.from((parsed.header.kdf as Pbkdf2Params).salt)).toEqual(Array.from(salt));
+    expect(parsed.iv.length).toBe(12);
+    expect(parsed.ciphertext.length).toBe(32);
+  });
+
+  it('should write an envelope that records the iteration count', async () => {
+    const encrypted = await encryptData(wifPayload, passphrase, LEGACY_PBKDF2_ITERATIONS);
+    const parsed = parseEnvelope(decode(encrypted));
+    expect(parsed.header.kdf).toMatchObject({
+      id: 'pbkdf2-sha256',
+      iterations: LEGACY_PBKDF2_ITERATIONS,
+    });
+  });
+
+  it('should reject unsupported envelope versions', async () => {
+    const bytes = decode(await encryptData(wifPayload, passphrase, LEGACY_PBKDF2_ITERATIONS));
+    bytes[3] = 99;
+    expect(() => parseEnvelope(bytes)).toThrow('Unsupported envelope: version 99.');
+    await expect(decryptData(toBase64(Array.from(bytes)), passphrase)).rejects.toThrow(
+      'Unsupported envelope: version 99.'
+    );
+  });
+
+  it('should reject out-of-bounds Argon2id costs before deriving a key', async () => {
+    const salt = new Uint8Array(16);
+    const argon2 = { id: 'argon2id', memory: 256, time: 1, parallelism: 1, salt } as const;
+    const { bytes } = encodeEnvelopeHeader({ cipher: 'aes-256-gcm', kdf: argon2 });
+    const withBody = new Uint8Array(bytes.length + 12 + 32);
+    withBody.set(bytes, 0);
+    // memory u32 (256) ‖ time u32 (1) ‖ parallelism u8 (1)
+    const paramsAt = withBody.findIndex((_, i) =>
+      [0, 0, 1, 0, 0, 0, 0, 1, 1].every((byte, j) => withBody[i + j] === byte)
+    );
+    withBody.fill(0xff, paramsAt, paramsAt + 4);
+    expect(() => parseEnvelope(withBody)).toThrow(CorruptBackupError);
+    await expect(decryptData(toBase64(Array.from(withBody)), passphrase)).rejects.toThrow(
+      `Invalid envelope: Argon2id memory must be between 8 and ${MAX_ARGON2ID_PARAMS.memory} KiB.`
+    );
+
+    expect(() =>
+      encodeEnvelopeHeader({ cipher: 'aes-256-gcm', kdf: { ...argon2, time: 1000 } })
+    ).toThrow(InvalidOptionsError);
+    await expect(
+      encryptBackup(wifPayload, passphrase, {
+        kdf: 'argon2id',
+        argon2: { memory: MAX_ARGON2ID_PARAMS.memory + 1 },
+      })
+    ).rejects.toBeInstanceOf(InvalidOptionsError);
+  });
+
+  it('should reject out-of-range PBKDF2 iterations before deriving a key', async () => {
+    const salt = new Uint8Array(16).fill(0xaa);
+    const pbkdf2 = { id: 'pbkdf2-sha256', iterations: 123456, salt } as const;
+    const { bytes } = encodeEnvelopeHeader({ cipher: 'aes-256-gcm', kdf: pbkdf2 });
+    // iterations u32 (123456) directly precedes the salt
+    const paramsAt = bytes.findIndex((_, i) =>
+      [0x00, 0x01, 0xe2, 0x40, 0xaa].every((byte, j) => bytes[i + j] === byte)
+    );
+    for (const iterations of [0, 0xffffffff]) {
+      const withBody = new Uint8Array(bytes.length + 12 + 32);
+      withBody.set(bytes, 0);
+      new DataView(withBody.buffer).setUint32(paramsAt, iterations);
+      expect(() => parseEnvelope(withBody)).toThrow(CorruptBackupError);
+      await expect(decryptData(toBase64(Array.from(withBody)), passphrase)).rejects.toThrow(
+        `Invalid envelope: PBKDF2 iterations must be between ${MIN_PBKDF2_ITERATIONS} and ${MAX_PBKDF2_ITERATIONS}.`
+      );
+    }
+
+    expect(() =>
+      encodeEnvelopeHeader({ cipher: 'aes-256-gcm', kdf: { ...pbkdf2, iterations: 1 } })
+    ).toThrow(InvalidOptionsError);
+    await expect(
+      encryptBackup(wifPayload, passphrase, MAX_PBKDF2_ITERATIONS + 1)
+    ).rejects.toBeInstanceOf(InvalidOptionsError);
+  });
+
+  it('should reject a truncated header', () => {
+    const bytes = Uint8Array.from([0x42, 0x45, 0x50, ENVELOPE_VERSION, 0]);
+    expect(() => parseEnvelope(bytes)).toThrow('Invalid envelope: header is truncated.');
+  });
+
+  it('should fail authentication when the ciphertext is modified', async () => {
+    const bytes = decode(await encryptData(wifPayload, passphrase, LEGACY_PBKDF2_ITERATIONS));
+    bytes[bytes.length - 1] ^= 0xff;
+    await expect(decryptData(toBase64(Array.from(bytes)), passphrase)).rejects.toThrow(
+      /Decryption failed: Invalid passphrase or corrupted data/
+    );
+  });
+
+  it('should still decrypt legacy headerless JSON backups', async () => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    salt[0] = 0; // Guarantee the salt does not start with the envelope magic
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const keyMaterial = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      { name: 'PBKDF2' },
+      false,
+      ['deriveKey']
+    );
+    const key = await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: LEGACY_PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      keyMaterial,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt']
+    );
+    const content = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(wifPayload))
+    );
+    const legacy = toBase64([...salt, ...iv, ...new Uint8Array(content)]);
+
+    const decrypted = (await decryptData(legacy, passphrase)) as WifBackup;
+    expect(decrypted.wif).toBe(wifPayload.wif);
+    expect(decrypted.label).toBe(wifPayload.label);
+  });
+});
+
+describe('Public metadata', () => {
+  const passphrase = 'metadataP@ssphrase';
+  const payload: WifBackup = {
+    wif: 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo',
+    label: 'Cold Storage',
+    createdAt: '2025-01-02T03:04:05.000Z',
+  };
+
+  it('should expose label, type and createdAt through inspectBackup', async () => {
+    const encrypted = await encryptBackup(payload, passphrase, {
+      iterations: LEGACY_PBKDF2_ITERATIONS,
+      publicMetadata: true,
+    });
+    const info = inspectBackup(encrypted);
+    expect(info.format).toBe('envelope');
+    expect(info.kdf).toEqual({ id: 'pbkdf2-sha256', iterations: LEGACY_PBKDF2_ITERATIONS });
+    expect(info.metadata).toEqual({
+      type: 'WIF',
+      label: 'Cold Storage',
+      createdAt: '2025-01-02T03:04:05.000Z',
+    });
+
+    const decrypted = (await decryptBackup(encrypted, passphrase)) as WifBackup;
+    expect(decrypted.label).toBe(payload.label);
+  });
+
+  it('should not write metadata unless requested', async () => {
+    const encrypted = await encryptBackup(payload, passphrase, LEGACY_PBKDF2_ITERATIONS);
+    expect(inspectBackup(encrypted).metadata).toBeUndefined();
+  });
+
+  it('should report legacy headerless backups as legacy', () => {
+    const legacy = Utils.toBase64(Array.from(new Uint8Array(60)));
+    expect(inspectBackup(legacy)).toEqual({ format: 'legacy' });
+  });
+
+  it('should fail decryption when the metadata is tampered with', async () => {
+    const encrypted = await encryptBackup(payload, passphrase, {
+      iterations: LEGACY_PBKDF2_ITERATIONS,
+      publicMetadata: true,
+    });
+    const bytes = Uint8Array.from(Utils.toArray(encrypted, 'base64'));
+    const labelOffset = new TextDecoder().decode(bytes).indexOf('Cold Storage');
+    bytes.set(new TextEncoder().encode('Warm'), labelOffset);
+    const tampered = Utils.toBase64(Array.from(bytes));
+
+    expect(inspectBackup(tampered).metadata?.label).toBe('Warm Storage');
+    await expect(decryptBackup(tampered, passphrase)).rejects.toThrow(
+      /Decryption failed: Invalid passphrase or corrupted data/
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'bun:test';
+import { Utils } from '@bsv/sdk';
+import { zipSync } from 'fflate';
+import { LEGACY_PBKDF2_ITERATIONS } from '../src/crypto';
+import {
+  BackupError,
+  CorruptBackupError,
+  combineShares,
+  decryptBackup,
+  encryptBackup,
+  InvalidOptionsError,
+  InvalidPassphraseError,
+  InvalidPayloadError,
+  parseYoursWalletZip,
+  UnsupportedFormatError,
+} from '../src/index';
+import type { DecryptedBackup, WifBackup } from '../src/interfaces';
+
+describe('Typed errors', () => {
+  const passphrase = 'errorsP@ssphrase';
+  const payload: WifBackup = { wif: 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo' };
+
+  const captureAsync = async (promise: Promise<unknown>): Promise<unknown> => {
+    try {
+      await promise;
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the promise to reject');
+  };
+
+  const capture = (fn: () => unknown): unknown => {
+    try {
+      fn();
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the call to throw');
+  };
+
+  it('should report a wrong passphrase as InvalidPassphraseError', async () => {
+    const encrypted = await encryptBackup(payload, passphrase, LEGACY_PBKDF2_ITERATIONS);
+    const error = await captureAsync(decryptBackup(encrypted, 'wrongP@ssphrase'));
+    expect(error).toBeInstanceOf(InvalidPassphraseError);
+    expect(error).toBeInstanceOf(BackupError);
+    expect((error as BackupError).code).toBe('INVALID_PASSPHRASE');
+    expect((error as BackupError).name).toBe('InvalidPassphraseError');
+  });
+
+  it('should report invalid Base64 as CorruptBackupError', async () => {
+    const error = await captureAsync(decryptBackup('!!!not base64!!!', passphrase));
+    expect(error).toBeInstanceOf(CorruptBackupError);
+    expect((error as BackupError).code).toBe('CORRUPT_BACKUP');
+  });
+
+  it('should report an unknown envelope version as UnsupportedFormatError', async () => {
+    const encrypted = await encryptBackup(payload, passphrase, LEGACY_PBKDF2_ITERATIONS);
+    const bytes = Utils.toArray(encrypted, 'base64');
+    bytes[3] = 99;
+    const error = await captureAsync(decryptBackup(Utils.toBase64(bytes), passphrase));
+    expect(error).toBeInstanceOf(UnsupportedFormatError);
+    expect((error as BackupError).code).toBe('UNSUPPORTED_FORMAT');
+  });
+
+  it('should report an unrecognized payload as InvalidPayloadError', async () => {
+    const error = await captureAsync(
+      encryptBackup({ foo: 'bar' } as unknown as DecryptedBackup, passphrase)
+    );
+    expect(error).toBeInstanceOf(InvalidPayloadError);
+    expect((error as InvalidPayloadError).issues).toEqual([]);
+  });
+
+  it('should attach key validation issues to InvalidPayloadError', async () => {
+    const error = await captureAsync(
+      encryptBackup({ wif: 'not-a-wif' }, passphrase, { validateKeys: true })
+    );
+    expect(error).toBeInstanceOf(InvalidPayloadError);
+    expect((error as InvalidPayloadError).issues.map((issue) => issue.field)).toEqual(['wif']);
+  });
+
+  it('should report bad encryption options as InvalidOptionsError', async () => {
+    const error = await captureAsync(encryptBackup(payload, passphrase, { iterations: -1 }));
+    expect(error).toBeInstanceOf(InvalidOptionsError);
+    expect((error as BackupError).code).toBe('INVALID_OPTIONS');
+  });
+
+  it('should report malformed shares as CorruptBackupError', () => {
+    const error = capture(() => combineShares(['not-a-share']));
+    expect(error).toBeInstanceOf(CorruptBackupError);
+  });
+
+  it('should distinguish unreadable and incomplete Yours Wallet ZIPs', () => {
+    const unreadable = capture(() => parseYoursWalletZip(new Uint8Array([1, 2, 3, 4])));
+    expect(unreadable).toBeInstanceOf(CorruptBackupError);
+
+    const missing = capture(() => parseYoursWalletZip(zipSync({ 'other.txt': new Uint8Array(1) })));
+    expect(missing).toBeInstanceOf(UnsupportedFormatError);
+
+    const badJson = capture(() =>
+      parseYoursWalletZip(zipSync({ 'chromeStorage.json': new TextEncoder().encode('{') }))
+    );
+    expect(badJson).toBeInstanceOf(CorruptBackupError);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'bun:test';
+import { HD, Mnemonic, PrivateKey } from '@bsv/sdk';
+import {
+  EXPORT_FORMATS,
+  exportBackup,
+  InvalidOptionsError,
+  importBackup,
+  UnsupportedFormatError,
+} from '../src/index';
+import type {
+  BapMasterBackupLegacy,
+  MasterBackupType42,
+  OneSatBackup,
+  YoursWalletBackup,
+} from '../src/interfaces';
+import { deriveYoursWalletKeys } from '../src/yours-wallet';
+
+describe('exportBackup', () => {
+  const mnemonic = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+  const oneSat: OneSatBackup = {
+    ordPk: PrivateKey.fromRandom().toWif(),
+    payPk: PrivateKey.fromRandom().toWif(),
+    identityPk: PrivateKey.fromRandom().toWif(),
+    label: 'Ordinals',
+    type: 'OneSat',
+    createdAt: '2025-01-01T00:00:00.000Z',
+  };
+  const legacy: BapMasterBackupLegacy = {
+    ids: 'encrypted-ids',
+    xprv: HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed()).toString(),
+    mnemonic,
+  };
+  const type42: MasterBackupType42 = { ids: 'encrypted-ids', rootPk: oneSat.identityPk };
+
+  it('writes 1Sat JSON that imports back to the same keys', () => {
+    const exported = exportBackup(oneSat, { to: '1sat' });
+    expect(JSON.parse(exported)).toEqual({
+      ordPk: oneSat.ordPk,
+      payPk: oneSat.payPk,
+      identityPk: oneSat.identityPk,
+    });
+    expect(importBackup(exported, { from: '1sat' })).toEqual([
+      { ordPk: oneSat.ordPk, payPk: oneSat.payPk, identityPk: oneSat.identityPk },
+    ]);
+  });
+
+  it('writes Yours Wallet JSON without bitcoin-backup fields or empty keys', () => {
+    const yours: YoursWalletBackup = {
+      ...deriveYoursWalletKeys(mnemonic),
+      identityPk: '',
+      label: 'Yours',
+      type: 'YoursWallet',
+    };
+    const { identityPk, label, type, ...expected } = yours;
+    expect(JSON.parse(exportBackup(yours, { to: 'yours' }))).toEqual(expected);
+  });
+
+  it('derives Yours Wallet and 1Sat keys from a legacy master mnemonic', () => {
+    const derived = deriveYoursWalletKeys(mnemonic);
+    expect(JSON.parse(exportBackup(legacy, { to: 'yours' }))).toEqual(derived);
+    expect(JSON.parse(exportBackup(legacy, { to: '1sat' }))).toEqual({
+      ordPk: derived.ordPk,
+      payPk: derived.payPk,
+      identityPk: derived.identityPk,
+    });
+    expect(exportBackup(legacy, { to: 'mnemonic' })).toBe(`${mnemonic}\n`);
+  });
+
+  it('writes a WIF list that the wif importer reads back', () => {
+    const exported = exportBackup(oneSat, { to: 'wif' });
+    expect(exported.split('\n')[0]).toBe('# Ordinals');
+    expect(importBackup(exported, { from: 'wif' })).toEqual([
+      { wif: oneSat.payPk, label: 'payPk' },
+      { wif: oneSat.ordPk, label: 'ordPk' },
+      { wif: oneSat.identityPk, label: 'identityPk' },
+    ]);
+
+    const root = HD.fromString(legacy.xprv).privKey.toWif();
+    expect(exportBackup(legacy, { to: 'wif' })).toBe(`${root} xprv\n`);
+    expect(exportBackup(type42, { to: 'wif' })).toBe(`${type42.rootPk} rootPk\n`);
+  });
+
+  it('rejects formats the backup cannot fill', () => {
+    expect(() => exportBackup(type42, { to: 'yours' })).toThrow(UnsupportedFormatError);
+    expect(() => exportBackup(oneSat, { to: 'mnemonic' })).toThrow(
+      'Cannot export a OneSat backup as mnemonic: it has no mnemonic.'
+    );
+    expect(() => exportBackup({ encryptedVault: 'blob' }, { to: 'wif' })).toThrow(
+      'it holds no private keys'
+    );
+    expect(() =>
+      exportBackup({ ...deriveYoursWalletKeys(mnemonic), identityPk: '' }, { to: '1sat' })
+    ).toThrow('it has no identity key');
+  });
+
+  it('rejects unknown formats', () => {
+    expect(EXPORT_FORMATS).toEqual(['yours', '1sat', 'wif', 'mnemonic']);
+    expect(() => exportBackup(oneSat, { to: 'electrum' as 'wif' })).toThrow(InvalidOptionsError);
+  });
+});
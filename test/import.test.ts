@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'bun:test';
+import { HD, Mnemonic, PrivateKey } from '@bsv/sdk';
+import {
+  IMPORT_FORMATS,
+  InvalidOptionsError,
+  InvalidPayloadError,
+  importBackup,
+  isOneSatBackup,
+  isWifBackup,
+  isYoursWalletBackup,
+  UnsupportedFormatError,
+} from '../src/index';
+import type { ImportFormat, YoursWalletBackup } from '../src/interfaces';
+
+describe('importBackup', () => {
+  const ordPk = PrivateKey.fromRandom().toWif();
+  const payPk = PrivateKey.fromRandom().toWif();
+  const identityPk = PrivateKey.fromRandom().toWif();
+  const mnemonic = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+
+  it('imports a 1Sat Ordinals JSON export as a OneSatBackup', () => {
+    const [backup] = importBackup(JSON.stringify({ ordPk, payPk, identityPk }), {
+      from: '1sat',
+      label: 'Ordinals',
+    });
+    expect(backup).toEqual({ ordPk, payPk, identityPk, label: 'Ordinals' });
+    expect(isOneSatBackup(backup)).toBe(true);
+  });
+
+  it('reports missing 1Sat keys', () => {
+    expect(() => importBackup(JSON.stringify({ ordPk }), { from: '1sat' })).toThrow(
+      'Invalid 1sat export: missing payPk, identityPk.'
+    );
+  });
+
+  it('imports a HandCash-style WIF list as one WifBackup per key', () => {
+    const input = JSON.stringify({ keys: [ordPk, { privateKey: payPk, name: 'Spending' }] });
+    const backups = importBackup(input, { from: 'handcash', label: 'HandCash' });
+    expect(backups).toEqual([
+      { wif: ordPk, label: 'HandCash' },
+      { wif: payPk, label: 'Spending' },
+    ]);
+    expect(backups.every(isWifBackup)).toBe(true);
+  });
+
+  it('derives Yours Wallet keys from an ElectrumSV BIP39 seed', () => {
+    const input = JSON.stringify({
+      keystore: { type: 'bip32', seed: mnemonic, seed_type: 'bip39' },
+    });
+    const [backup] = importBackup(input, { from: 'electrumsv' }) as YoursWalletBackup[];
+    const root = HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed());
+    expect(backup.mnemonic).toBe(mnemonic);
+    expect(backup.payDerivationPath).toBe("m/44'/236'/0'/1/0");
+    expect(backup.payPk).toBe(root.derive("m/44'/236'/0'/1/0").privKey.toWif());
+    expect(backup.ordPk).toBe(root.derive("m/44'/236'/1'/0/0").privKey.toWif());
+    expect(isYoursWalletBackup(backup)).toBe(true);
+  });
+
+  it('imports ElectrumSV imported keypairs and rejects non-BIP39 seeds', () => {
+    const imported = JSON.stringify({
+      keystore: { type: 'imported', keypairs: { '02aa': ordPk, '03bb': payPk } },
+    });
+    expect(importBackup(imported, { from: 'electrumsv' })).toEqual([
+      { wif: ordPk },
+      { wif: payPk },
+    ]);
+
+    const electrumSeed = JSON.stringify({ keystore: { seed: mnemonic, seed_type: 'standard' } });
+    expect(() => importBackup(electrumSeed, { from: 'electrumsv' })).toThrow(
+      UnsupportedFormatError
+    );
+    const withPassphrase = JSON.stringify({ keystore: { seed: mnemonic, passphrase: 'extra' } });
+    expect(() => importBackup(withPassphrase, { from: 'electrumsv' })).toThrow(
+      UnsupportedFormatError
+    );
+  });
+
+  it('imports a plain WIF text file, skipping comments and blank lines', () => {
+    const input = `\uFEFF# exported keys\n${ordPk} cold storage\r\n\n  ${payPk}  # hot\n`;
+    expect(importBackup(input, { from: 'wif' })).toEqual([
+      { wif: ordPk, label: 'cold storage' },
+      { wif: payPk },
+    ]);
+  });
+
+  it('rejects keys that fail validation, naming the key', () => {
+    const testnetWif = PrivateKey.fromRandom().toWif([0xef]);
+    let error: unknown;
+    try {
+      importBackup(`${ordPk}\n${testnetWif}`, { from: 'wif' });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(InvalidPayloadError);
+    expect((error as Error).message).toContain('(key 2)');
+    expect((error as InvalidPayloadError).issues.map((issue) => issue.code)).toEqual([
+      'wrong-network',
+    ]);
+
+    expect(importBackup(testnetWif, { from: 'wif', network: 'testnet' })).toEqual([
+      { wif: testnetWif },
+    ]);
+  });
+
+  it('rejects malformed input and unknown formats', () => {
+    for (const from of IMPORT_FORMATS.filter((format) => format !== 'wif')) {
+      expect(() => importBackup('not json', { from })).toThrow(InvalidPayloadError);
+    }
+    expect(() => importBackup('  \n# only a comment\n', { from: 'wif' })).toThrow(
+      'no WIF keys found'
+    );
+    expect(() => importBackup('{}', { from: 'bitpay' as ImportFormat })).toThrow(
+      InvalidOptionsError
+    );
+  });
+});
@@ -1,10 +1,20 @@
 import { beforeAll, describe, expect, it } from 'bun:test';
+import { PrivateKey } from '@bsv/sdk';
 import {
   // Import the main interface that users will use
+  addKeyslot,
   type BapMasterBackup,
   decryptBackup,
   encryptBackup,
+  getBackupType,
+  InvalidOptionsError,
+  inspectBackup,
+  isOneSatBackup,
   type OneSatBackup, // Added OneSatBackup for testing
+  rekeyBackup,
+  resealBackup,
+  type WifBackup,
+  type YoursWalletBackup,
 } from '../src/index'; // Test the public API
 
 describe('Public API Functions (index.ts)', () => {
@@ -43,7 +53,7 @@ describe('Public API Functions (index.ts)', () => {
         // @ts-expect-error Testing invalid payload type
         encryptBackup(invalidStructurePayload, validPassphrase)
       ).rejects.toThrow(
-        'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, or YoursWalletZipBackup structure.'
+        'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, YoursWalletZipBackup, or BundleBackup structure.'
       );
     });
 
@@ -52,7 +62,7 @@ describe('Public API Functions (index.ts)', () => {
         // @ts-expect-error Testing invalid payload type
         encryptBackup(null, validPassphrase)
       ).rejects.toThrow(
-        'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, or YoursWalletZipBackup structure.'
+        'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, YoursWalletZipBackup, or BundleBackup structure.'
       );
     });
 
@@ -61,7 +71,7 @@ describe('Public API Functions (index.ts)', () => {
         // @ts-expect-error Testing invalid payload type
         encryptBackup('not an object', validPassphrase)
       ).rejects.toThrow(
-        'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, or YoursWalletZipBackup structure.'
+        'Invalid payload: Payload must be an object matching BapMasterBackup, BapAccountBackup, WifBackup, OneSatBackup, VaultBackup, YoursWalletBackup, YoursWalletZipBackup, or BundleBackup structure.'
       );
     });
 
@@ -160,3 +170,169 @@ describe('Public API Functions (index.ts)', () => {
     });
   });
 });
+
+describe('rekeyBackup', () => {
+  const oldPassphrase = 'oldP@ssphrase';
+  const newPassphrase = 'newP@ssphrase';
+  const payload: WifBackup = {
+    wif: 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo',
+    label: 'Hot wallet',
+    createdAt: '2024-05-06T07:08:09.000Z',
+  };
+
+  it('should re-encrypt under the new passphrase, keeping label and createdAt', async () => {
+    const encrypted = await encryptBackup(payload, oldPassphrase, {
+      iterations: 1000,
+      publicMetadata: true,
+    });
+    const rekeyed = await rekeyBackup(encrypted, oldPassphrase, newPassphrase, {
+      kdf: 'argon2id',
+      argon2: { memory: 256, time: 1, parallelism: 1 },
+    });
+
+    const decrypted = (await decryptBackup(rekeyed, newPassphrase)) as WifBackup;
+    expect(decrypted).toEqual({ ...payload, type: 'WIF' });
+    const info = inspectBackup(rekeyed);
+    expect(info.kdf?.id).toBe('argon2id');
+    expect(info.metadata).toEqual({
+      type: 'WIF',
+      label: payload.label,
+      createdAt: payload.createdAt,
+    });
+    await expect(decryptBackup(rekeyed, oldPassphrase)).rejects.toThrow(/Invalid passphrase/);
+  });
+
+  it("should keep the backup's KDF when no options are given", async () => {
+    const argon2 = { memory: 256, time: 1, parallelism: 1 };
+    const encrypted = await encryptBackup(payload, oldPassphrase, { kdf: 'argon2id', argon2 });
+    const rekeyed = await rekeyBackup(encrypted, oldPassphrase, newPassphrase);
+    expect(inspectBackup(rekeyed).kdf).toEqual({ id: 'argon2id', ...argon2 });
+
+    const pbkdf2 = await encryptBackup(payload, oldPassphrase, 1000);
+    const rekeyedPbkdf2 = await rekeyBackup(pbkdf2, oldPassphrase, newPassphrase);
+    expect(inspectBackup(rekeyedPbkdf2).kdf).toEqual({ id: 'pbkdf2-sha256', iterations: 1000 });
+  });
+
+  it('should only drop other keyslots when asked to', async () => {
+    const single = await encryptBackup(payload, oldPassphrase, {
+      iterations: 1000,
+      keyslots: true,
+    });
+    const twoSlots = await addKeyslot(single, oldPassphrase, 'otherP@ssphrase', 1000);
+    await expect(rekeyBackup(twoSlots, oldPassphrase, newPassphrase)).rejects.toBeInstanceOf(
+      InvalidOptionsError
+    );
+    const rekeyed = await rekeyBackup(twoSlots, oldPassphrase, newPassphrase, {
+      dropKeyslots: true,
+    });
+    expect(inspectBackup(rekeyed).kdf).toEqual({
+      id: 'keyslots',
+      slots: [{ id: 'pbkdf2-sha256', iterations: 1000 }],
+    });
+    await expect(decryptBackup(rekeyed, 'otherP@ssphrase')).rejects.toThrow(/Invalid passphrase/);
+  });
+
+  it('should reject a wrong old passphrase and a short new one', async () => {
+    const encrypted = await encryptBackup(payload, oldPassphrase, 1000);
+    await expect(rekeyBackup(encrypted, 'wrongP@ssphrase', newPassphrase)).rejects.toThrow(
+      /Decryption failed/
+    );
+    await expect(rekeyBackup(encrypted, oldPassphrase, 'short')).rejects.toThrow(
+      'Invalid passphrase: Passphrase must be at least 8 characters long.'
+    );
+  });
+});
+
+describe('resealBackup', () => {
+  const passphrase = 'sealP@ssphrase';
+  const payload: WifBackup = { wif: 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo' };
+  const replacement: WifBackup = { wif: PrivateKey.fromRandom().toWif(), label: 'Replaced' };
+
+  it('should keep every keyslot and the metadata setting', async () => {
+    const single = await encryptBackup(payload, passphrase, {
+      iterations: 1000,
+      keyslots: true,
+      publicMetadata: true,
+    });
+    const twoSlots = await addKeyslot(single, passphrase, 'otherP@ssphrase', 1000);
+    const resealed = await resealBackup(twoSlots, passphrase, replacement);
+
+    expect(inspectBackup(resealed).kdf).toEqual(inspectBackup(twoSlots).kdf);
+    expect(inspectBackup(resealed).metadata?.label).toBe('Replaced');
+    const byOther = (await decryptBackup(resealed, 'otherP@ssphrase')) as WifBackup;
+    expect(byOther.wif).toBe(replacement.wif);
+  });
+
+  it('should keep the passphrase KDF and the recipients', async () => {
+    const argon2 = { memory: 256, time: 1, parallelism: 1 };
+    const encrypted = await encryptBackup(payload, passphrase, { kdf: 'argon2id', argon2 });
+    const resealed = await resealBackup(encrypted, passphrase, replacement);
+    expect(inspectBackup(resealed).kdf).toEqual({ id: 'argon2id', ...argon2 });
+    expect(((await decryptBackup(resealed, passphrase)) as WifBackup).wif).toBe(replacement.wif);
+
+    const alice = PrivateKey.fromRandom();
+    const bob = PrivateKey.fromRandom().toPublicKey().toString();
+    const recipients = [alice.toPublicKey().toString(), bob];
+    const forRecipients = await encryptBackup(payload, { recipients });
+    const privateKey = alice.toWif();
+    const resealedForRecipients = await resealBackup(forRecipients, { privateKey }, replacement);
+    expect(inspectBackup(resealedForRecipients).kdf).toEqual({
+      id: 'ecies-recipients',
+      recipients,
+    });
+    const decrypted = (await decryptBackup(resealedForRecipients, { privateKey })) as WifBackup;
+    expect(decrypted.wif).toBe(replacement.wif);
+  });
+
+  it('should change nothing without a secret that opens the backup', async () => {
+    const encrypted = await encryptBackup(payload, passphrase, {
+      iterations: 1000,
+      keyslots: true,
+    });
+    await expect(resealBackup(encrypted, 'wrongP@ssphrase', replacement)).rejects.toThrow(
+      /Invalid passphrase/
+    );
+    await expect(
+      // @ts-expect-error Testing an invalid payload
+      resealBackup(encrypted, passphrase, { notABackup: true })
+    ).rejects.toThrow('Invalid payload');
+  });
+});
+
+describe('Backup type discriminator', () => {
+  const passphrase = 'typeP@ssphrase';
+  const wif = 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo';
+
+  it('should stamp the detected type onto encrypted payloads', async () => {
+    const encrypted = await encryptBackup({ wif, id: 'bapId' }, passphrase, 1000);
+    const decrypted = await decryptBackup(encrypted, passphrase);
+    expect(decrypted.type).toBe('Account');
+  });
+
+  it('should prefer the declared type over key heuristics', async () => {
+    // Without the discriminator these keys look like a OneSatBackup
+    const payload: YoursWalletBackup = {
+      type: 'YoursWallet',
+      payPk: wif,
+      ordPk: wif,
+      identityPk: wif,
+    };
+    expect(getBackupType(payload)).toBe('YoursWallet');
+    expect(isOneSatBackup(payload)).toBe(false);
+
+    const encrypted = await encryptBackup(payload, passphrase, 1000);
+    const decrypted = await decryptBackup(encrypted, passphrase);
+    expect(getBackupType(decrypted)).toBe('YoursWallet');
+  });
+
+  it('should reject unknown types and payloads that do not match their declared type', async () => {
+    await expect(
+      // @ts-expect-error Testing an unknown type discriminator
+      encryptBackup({ type: 'Paper', wif }, passphrase, 1000)
+    ).rejects.toThrow('Invalid payload');
+    await expect(
+      // @ts-expect-error Testing a mismatched type discriminator
+      encryptBackup({ type: 'Legacy', wif }, passphrase, 1000)
+    ).rejects.toThrow('Invalid payload');
+  });
+});
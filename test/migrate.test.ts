@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test';
+import { HD, Mnemonic, PrivateKey } from '@bsv/sdk';
+import { bapIdFromAddress, bapRootAddress, decryptBapIds, encryptBapIds } from '../src/bap';
+import {
+  CorruptBackupError,
+  InvalidPayloadError,
+  isType42Backup,
+  migrateLegacyToType42,
+  UnsupportedFormatError,
+} from '../src/index';
+import type { BapMasterBackupLegacy } from '../src/interfaces';
+
+describe('migrateLegacyToType42', () => {
+  const mnemonic = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+  const root = HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed());
+  const rootPk = root.privKey.toWif();
+  const legacyPath = "m/424150'/0'/0'/0'/0'/0'";
+  const legacyAddress = root.derive(legacyPath).pubKey.toAddress();
+  const type42Address = bapRootAddress({ ids: '', rootPk }, 'bap:0');
+  const legacyId = bapIdFromAddress(legacyAddress);
+  const type42Id = bapIdFromAddress(type42Address);
+  const identities = {
+    lastIdPath: legacyPath,
+    ids: [
+      { identityKey: legacyId, rootPath: legacyPath, rootAddress: legacyAddress },
+      { identityKey: type42Id, rootPath: 'bap:0', rootAddress: type42Address },
+    ],
+  };
+  const legacy: BapMasterBackupLegacy = {
+    ids: '',
+    xprv: root.toString(),
+    mnemonic,
+    label: 'Main',
+    type: 'Legacy',
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+  legacy.ids = encryptBapIds(legacy, identities);
+
+  it('derives the rootPk from the xprv root and re-encrypts ids to it', () => {
+    const { backup } = migrateLegacyToType42(legacy);
+    expect(backup.rootPk).toBe(rootPk);
+    expect(backup.label).toBe('Main');
+    expect(backup).not.toHaveProperty('createdAt');
+    expect(isType42Backup(backup)).toBe(true);
+    expect(backup.ids).not.toBe(legacy.ids);
+    expect(decryptBapIds(backup)).toEqual(identities);
+  });
+
+  it('re-derives every identity key from the new rootPk and reports the ones it loses', () => {
+    const lostId = bapIdFromAddress(bapRootAddress({ ids: '', rootPk }, legacyPath));
+    expect(migrateLegacyToType42(legacy).report).toEqual({
+      identityKeysBefore: [legacyId, type42Id],
+      identityKeysAfter: [lostId, type42Id],
+      identityKeysMatch: false,
+      mismatchedIdentityKeys: [legacyId],
+    });
+
+    const type42Only = { lastIdPath: 'bap:0', ids: [identities.ids[1]] };
+    const { report } = migrateLegacyToType42({
+      ...legacy,
+      ids: encryptBapIds(legacy, type42Only),
+    });
+    expect(report.identityKeysMatch).toBe(true);
+    expect(report.mismatchedIdentityKeys).toEqual([]);
+  });
+
+  it('rejects non-legacy backups, mismatched keys and unreadable ids', () => {
+    expect(() => migrateLegacyToType42({ ids: legacy.ids, rootPk })).toThrow(
+      UnsupportedFormatError
+    );
+    const otherXprv = HD.fromSeed(PrivateKey.fromRandom().toArray()).toString();
+    expect(() => migrateLegacyToType42({ ...legacy, xprv: otherXprv })).toThrow(
+      InvalidPayloadError
+    );
+    expect(() => migrateLegacyToType42({ ...legacy, ids: 'opaque' })).toThrow(CorruptBackupError);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'bun:test';
+import { Utils } from '@bsv/sdk';
+import {
+  type BapMasterBackup,
+  CorruptBackupError,
+  combineShares,
+  getBackupType,
+  isLegacyBackup,
+  isType42Backup,
+  splitBackup,
+} from '../src/index';
+import { combineSecret, decodeShare, encodeShare, splitSecret } from '../src/shamir';
+
+describe('Shamir secret sharing', () => {
+  const type42Backup: BapMasterBackup = {
+    ids: 'type42Ids',
+    rootPk: 'L5EZftvrYaSudiozVRzTqLcHLNDoVn7H5HSfM9BAN6tMJX8oTWz6',
+    label: 'Shared Master',
+  };
+  const legacyBackup: BapMasterBackup = {
+    ids: 'legacyIds',
+    xprv: 'xprv9s21ZrQH143K3QjYCBAdHguS7U8sAdvA9xTRB2g9tJorR9zaDmyLgBpHXjQJzV7G3V1kH6E1iG5fMaU5uY9mN1fK1aQ1eTzL9fN1pW2sXyZ',
+    mnemonic: 'legal winner thank year wave sausage worth useful legal winner thank yellow',
+  };
+
+  describe('splitSecret / combineSecret', () => {
+    const secret = new TextEncoder().encode('the quick brown fox');
+
+    it('should recover the secret from every threshold-sized subset', () => {
+      const shares = splitSecret(secret, 3, 5);
+      const subsets = [
+        [0, 1, 2],
+        [0, 2, 4],
+        [1, 3, 4],
+        [4, 3, 2],
+      ];
+      for (const subset of subsets) {
+        const recovered = combineSecret(subset.map((i) => shares[i]));
+        expect(new TextDecoder().decode(recovered)).toBe('the quick brown fox');
+      }
+    });
+
+    it('should round-trip shares through their encoded form', () => {
+      const shares = splitSecret(secret, 2, 3).map(encodeShare);
+      const decoded = decodeShare(shares[1]);
+      expect(decoded.threshold).toBe(2);
+      expect(decoded.index).toBe(2);
+      expect(new TextDecoder().decode(combineSecret([decoded, decodeShare(shares[2])]))).toBe(
+        'the quick brown fox'
+      );
+    });
+
+    it('should reject invalid threshold and share counts', () => {
+      expect(() => splitSecret(secret, 1, 3)).toThrow(
+        'Invalid share options: require 2 <= threshold <= shares <= 255.'
+      );
+      expect(() => splitSecret(secret, 4, 3)).toThrow();
+      expect(() => splitSecret(secret, 2, 256)).toThrow();
+    });
+
+    it('should detect a corrupted share via the checksum', () => {
+      const shares = splitSecret(secret, 2, 3);
+      shares[0].data[0] ^= 0x01;
+      expect(() => combineSecret([shares[0], shares[1]])).toThrow(
+        'Invalid shares: recovered secret does not match the share checksum.'
+      );
+    });
+  });
+
+  describe('splitBackup / combineShares', () => {
+    it('should round-trip a Type 42 master backup through the guards', () => {
+      const shares = splitBackup(type42Backup, { threshold: 2, shares: 3 });
+      expect(shares).toHaveLength(3);
+
+      const recovered = combineShares([shares[2], shares[0]]);
+      expect(isType42Backup(recovered)).toBe(true);
+      expect(getBackupType(recovered)).toBe('Type42');
+      expect(recovered).toMatchObject(type42Backup);
+      expect(recovered.createdAt).toBeDefined();
+    });
+
+    it('should round-trip a legacy master backup through the guards', () => {
+      const shares = splitBackup(legacyBackup, { threshold: 3, shares: 5 });
+      const recovered = combineShares([shares[4], shares[1], shares[3]]);
+      expect(isLegacyBackup(recovered)).toBe(true);
+      expect(recovered).toMatchObject(legacyBackup);
+    });
+
+    it('should fail with fewer shares than the threshold', () => {
+      const shares = splitBackup(type42Backup, { threshold: 3, shares: 5 });
+      expect(() => combineShares(shares.slice(0, 2))).toThrow(
+        'Invalid shares: 3 shares required, 2 provided.'
+      );
+    });
+
+    it('should refuse to mix shares from different splits', () => {
+      const first = splitBackup(type42Backup, { threshold: 2, shares: 2 });
+      const second = splitBackup(legacyBackup, { threshold: 2, shares: 2 });
+      expect(() => combineShares([first[0], second[1]])).toThrow(
+        'Invalid shares: shares belong to different splits.'
+      );
+    });
+
+    it('should reject duplicated shares', () => {
+      const shares = splitBackup(type42Backup, { threshold: 2, shares: 3 });
+      expect(() => combineShares([shares[0], shares[0]])).toThrow(
+        'Invalid shares: duplicate share index.'
+      );
+    });
+
+    it('should report recovered data that cannot be decoded as a corrupt backup', () => {
+      const secrets = [new TextEncoder().encode('{not json'), Uint8Array.from([0xc1])];
+      for (const secret of secrets) {
+        const shares = splitSecret(secret, 2, 2).map(encodeShare);
+        expect(() => combineShares(shares)).toThrow(CorruptBackupError);
+        expect(() => combineShares(shares)).toThrow(
+          'Invalid shares: recovered data could not be decoded.'
+        );
+      }
+    });
+
+    it('should decode the payload with the encoding recorded in the shares', () => {
+      const type42Shares = splitBackup(type42Backup, { threshold: 2, shares: 2 });
+      expect(decodeShare(type42Shares[0]).encoding).toBe('json');
+
+      // JSON bytes flagged as msgpack are decoded as msgpack, not guessed from the '{'
+      const json = new TextEncoder().encode(JSON.stringify(type42Backup));
+      const flagged = splitSecret(json, 2, 2).map((share) =>
+        encodeShare({ ...share, encoding: 'msgpack' })
+      );
+      expect(decodeShare(flagged[0]).encoding).toBe('msgpack');
+      expect(() => combineShares(flagged)).toThrow(
+        'Invalid shares: recovered data could not be decoded.'
+      );
+
+      const bytes = Uint8Array.from(Utils.toArray(type42Shares[0], 'base64'));
+      bytes[4] = 0x80;
+      expect(() => decodeShare(Utils.toBase64(Array.from(bytes)))).toThrow(
+        'Unsupported share: unknown flags 0x80.'
+      );
+    });
+
+    it('should reject invalid payloads', () => {
+      expect(() =>
+        // @ts-expect-error Testing invalid payload type
+        splitBackup({ not: 'a backup' }, { threshold: 2, shares: 3 })
+      ).toThrow(/^Invalid payload/);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'bun:test';
+import { Utils } from '@bsv/sdk';
+import { LEGACY_PBKDF2_ITERATIONS } from '../src/crypto';
+import { parseEnvelope } from '../src/envelope';
+import {
+  CorruptBackupError,
+  decryptBackup,
+  decryptBackupStream,
+  encryptBackup,
+  encryptBackupStream,
+  InvalidPassphraseError,
+  UnsupportedFormatError,
+} from '../src/index';
+import { STREAM_SEGMENT_SIZE, STREAM_TAG_LENGTH } from '../src/stream';
+
+describe('Streaming encryption', () => {
+  const passphrase = 'streamP@ssphrase';
+  const options = { iterations: LEGACY_PBKDF2_ITERATIONS };
+
+  /** A byte stream delivering `bytes` in chunks of `chunkSize`. */
+  const streamOf = (bytes: Uint8Array, chunkSize = 8192) =>
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+          controller.enqueue(bytes.slice(offset, offset + chunkSize));
+        }
+        controller.close();
+      },
+    });
+
+  const collect = async (stream: ReadableStream<Uint8Array>) =>
+    new Uint8Array(await new Response(stream).arrayBuffer());
+
+  const randomBytes = (length: number) => {
+    const bytes = new Uint8Array(length);
+    for (let offset = 0; offset < length; offset += 65536) {
+      crypto.getRandomValues(bytes.subarray(offset, Math.min(offset + 65536, length)));
+    }
+    return bytes;
+  };
+
+  const encrypt = async (plaintext: Uint8Array, chunkSize?: number) =>
+    collect(await encryptBackupStream(streamOf(plaintext, chunkSize), passphrase, options));
+
+  it('should round-trip payloads around the segment boundaries', async () => {
+    for (const length of [
+      0,
+      1,
+      STREAM_SEGMENT_SIZE,
+      STREAM_SEGMENT_SIZE + 1,
+      3 * STREAM_SEGMENT_SIZE + 5,
+    ]) {
+      const plaintext = randomBytes(length);
+      const encrypted = await encrypt(plaintext);
+      const decrypted = await collect(await decryptBackupStream(streamOf(encrypted), passphrase));
+      expect(decrypted.length).toBe(length);
+      expect(Buffer.compare(decrypted, plaintext)).toBe(0);
+    }
+  });
+
+  it('should not depend on how the input is chunked', async () => {
+    const plaintext = randomBytes(2 * STREAM_SEGMENT_SIZE + 100);
+    const encrypted = await encrypt(plaintext, 1000);
+    const decrypted = await collect(await decryptBackupStream(streamOf(encrypted, 7), passphrase));
+    expect(Buffer.compare(decrypted, plaintext)).toBe(0);
+  });
+
+  it('should record the stream cipher and KDF in the envelope header', async () => {
+    const encrypted = await encrypt(new TextEncoder().encode('{"wif":"test"}'));
+    const { header } = parseEnvelope(encrypted);
+    expect(header.cipher).toBe('aes-256-gcm-stream');
+    expect(header.kdf).toMatchObject({ id: 'pbkdf2-sha256', iterations: LEGACY_PBKDF2_ITERATIONS });
+  });
+
+  it('should reject a wrong passphrase before returning the stream', async () => {
+    const encrypted = await encrypt(randomBytes(100));
+    await expect(
+      decryptBackupStream(streamOf(encrypted), 'wrongP@ssphrase')
+    ).rejects.toBeInstanceOf(InvalidPassphraseError);
+  });
+
+  it('should fail when the final segment is dropped or segments are reordered', async () => {
+    const encrypted = await encrypt(randomBytes(3 * STREAM_SEGMENT_SIZE + 10));
+    const segmentLength = STREAM_SEGMENT_SIZE + STREAM_TAG_LENGTH;
+    const bodyStart = encrypted.length - (3 * segmentLength + 10 + STREAM_TAG_LENGTH);
+
+    const truncated = encrypted.slice(0, bodyStart + 3 * segmentLength);
+    const truncatedStream = await decryptBackupStream(streamOf(truncated), passphrase);
+    await expect(collect(truncatedStream)).rejects.toBeInstanceOf(CorruptBackupError);
+
+    const reordered = encrypted.slice();
+    reordered.set(
+      encrypted.subarray(bodyStart + 2 * segmentLength, bodyStart + 3 * segmentLength),
+      bodyStart + segmentLength
+    );
+    reordered.set(
+      encrypted.subarray(bodyStart + segmentLength, bodyStart + 2 * segmentLength),
+      bodyStart + 2 * segmentLength
+    );
+    const reorderedStream = await decryptBackupStream(streamOf(reordered), passphrase);
+    await expect(collect(reorderedStream)).rejects.toThrow('Stream segment 1 is corrupted');
+  });
+
+  it('should keep streamed and Base64 envelopes apart', async () => {
+    const encrypted = await encrypt(new TextEncoder().encode('{"wif":"test"}'));
+    await expect(
+      decryptBackup(Utils.toBase64(Array.from(encrypted)), passphrase)
+    ).rejects.toBeInstanceOf(UnsupportedFormatError);
+
+    const base64 = await encryptBackup(
+      { wif: 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo' },
+      passphrase,
+      LEGACY_PBKDF2_ITERATIONS
+    );
+    const raw = Uint8Array.from(Utils.toArray(base64, 'base64'));
+    await expect(decryptBackupStream(streamOf(raw), passphrase)).rejects.toThrow(
+      'not a streamed envelope'
+    );
+    await expect(
+      decryptBackupStream(streamOf(new TextEncoder().encode(base64)), passphrase)
+    ).rejects.toThrow('Not a streamed backup envelope');
+  });
+
+  it('should validate the passphrase and options', async () => {
+    await expect(encryptBackupStream(streamOf(new Uint8Array(1)), 'short')).rejects.toBeInstanceOf(
+      InvalidPassphraseError
+    );
+    await expect(
+      encryptBackupStream(streamOf(new Uint8Array(1)), passphrase, { iterations: 0 })
+    ).rejects.toThrow('Invalid options: iterations must be a positive integer.');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'bun:test';
+import { HD, Mnemonic, PrivateKey } from '@bsv/sdk';
+import { encryptBackup } from '../src/index';
+import type {
+  BapMasterBackupLegacy,
+  OneSatBackup,
+  WifBackup,
+  YoursWalletBackup,
+} from '../src/interfaces';
+import { validateBackupKeys } from '../src/validate';
+
+describe('validateBackupKeys', () => {
+  const wif = 'L4rprVahLjG4LWdULUeoxaVyq9chGQzg8kSVgSWfBrdeyAZs9VLo';
+  const mnemonic =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+  const xprv = HD.fromSeed(Mnemonic.fromString(mnemonic).toSeed()).toString();
+
+  it('should accept valid WIF, xprv and mnemonic fields', () => {
+    const legacy: BapMasterBackupLegacy = { ids: 'ids', xprv, mnemonic };
+    const oneSat: OneSatBackup = { ordPk: wif, payPk: wif, identityPk: wif };
+    expect(validateBackupKeys(legacy)).toEqual([]);
+    expect(validateBackupKeys(oneSat)).toEqual([]);
+    expect(validateBackupKeys({ wif } as WifBackup)).toEqual([]);
+  });
+
+  it('should report a WIF with a bad checksum', () => {
+    const typo = `${wif.slice(0, -1)}p`;
+    expect(validateBackupKeys({ wif: typo })).toEqual([
+      {
+        field: 'wif',
+        code: 'invalid-wif',
+        message: 'wif is not valid Base58Check (bad character or checksum).',
+      },
+    ]);
+  });
+
+  it('should check the WIF network', () => {
+    const testnetWif = PrivateKey.fromRandom().toWif([0xef]);
+    expect(validateBackupKeys({ wif: testnetWif })[0]?.code).toBe('wrong-network');
+    expect(validateBackupKeys({ wif: testnetWif }, { network: 'testnet' })).toEqual([]);
+    expect(validateBackupKeys({ wif }, { network: 'testnet' })[0]?.code).toBe('wrong-network');
+  });
+
+  it('should report each invalid field of a payload', () => {
+    const payload: YoursWalletBackup = { payPk: 'nope', ordPk: wif, mnemonic: 'abandon about' };
+    const errors = validateBackupKeys(payload);
+    expect(errors.map((e) => [e.field, e.code])).toEqual([
+      ['payPk', 'invalid-wif'],
+      ['mnemonic', 'invalid-mnemonic-length'],
+    ]);
+  });
+
+  it('should skip empty key fields', () => {
+    const payload: YoursWalletBackup = { mnemonic: '', payPk: wif, ordPk: wif, identityPk: '' };
+    expect(validateBackupKeys(payload)).toEqual([]);
+  });
+
+  it('should report unknown mnemonic words by position and bad checksums', () => {
+    const unknownWord = mnemonic.replace('about', 'abuot');
+    expect(validateBackupKeys({ ids: 'ids', xprv, mnemonic: unknownWord })).toEqual([
+      {
+        field: 'mnemonic',
+        code: 'invalid-mnemonic-word',
+        message: 'mnemonic word(s) at position 12 are not in the BIP39 English wordlist.',
+      },
+    ]);
+    const badChecksum = mnemonic.replace('about', 'abandon');
+    expect(validateBackupKeys({ ids: 'ids', xprv, mnemonic: badChecksum })[0]?.code).toBe(
+      'invalid-mnemonic-checksum'
+    );
+  });
+
+  it('should report an xprv that is not derived from the mnemonic', () => {
+    const otherXprv = HD.fromRandom().toString();
+    expect(validateBackupKeys({ ids: 'ids', xprv: otherXprv, mnemonic })).toEqual([
+      {
+        field: 'xprv',
+        code: 'xprv-mnemonic-mismatch',
+        message: 'xprv is not the master key derived from mnemonic.',
+      },
+    ]);
+    const xpub = HD.fromString(xprv).toPublic().toString();
+    expect(validateBackupKeys({ ids: 'ids', xprv: xpub, mnemonic })[0]?.code).toBe('invalid-xprv');
+  });
+
+  it('should only reject invalid keys in encryptBackup when validateKeys is set', async () => {
+    const payload: WifBackup = { wif: 'not-a-wif' };
+    await expect(
+      encryptBackup(payload, 'validP@ssphrase', { iterations: 1000, validateKeys: true })
+    ).rejects.toThrow('Invalid payload: wif is not valid Base58Check');
+    await expect(encryptBackup(payload, 'validP@ssphrase', 1000)).resolves.toBeString();
+  });
+});
@@ -1,8 +1,32 @@
 import { describe, expect, it } from 'bun:test';
-import { encode as encodeMsgpack } from '@msgpack/msgpack';
-import { strToU8, zipSync } from 'fflate';
-import { decryptBackup, encryptBackup, parseYoursWalletZip } from '../src/index';
-import type { OneSatBackup, YoursWalletBackup, YoursWalletZipBackup } from '../src/interfaces';
+import { createCipheriv, createHash, randomBytes } from 'node:crypto';
+import { PrivateKey, Utils } from '@bsv/sdk';
+import { ExtData, encode as encodeMsgpack } from '@msgpack/msgpack';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { LEGACY_PBKDF2_ITERATIONS } from '../src/crypto';
+import { parseEnvelope } from '../src/envelope';
+import {
+  buildYoursWalletZip,
+  CorruptBackupError,
+  combineShares,
+  decodeYoursWalletZipEntries,
+  decryptBackup,
+  decryptYoursWalletKeys,
+  encryptBackup,
+  extractYoursWalletAccounts,
+  InvalidPassphraseError,
+  InvalidPayloadError,
+  parseYoursWalletZip,
+  splitBackup,
+  UnsupportedFormatError,
+  validateYoursWalletZip,
+} from '../src/index';
+import type {
+  OneSatBackup,
+  YoursWalletBackup,
+  YoursWalletBackupManifestV2,
+  YoursWalletZipBackup,
+} from '../src/interfaces';
 import { isYoursWalletBackup, isYoursWalletZipBackup } from '../src/yours-wallet';
 
 describe('YoursWallet Backup', () => {
@@ -54,7 +78,8 @@ describe('YoursWallet Backup', () => {
       const decrypted = (await decryptBackup(encrypted, passphrase)) as YoursWalletBackup;
       // The createdAt field is added automatically if not present
       expect(decrypted.createdAt).toBeDefined();
-      const { createdAt, ...decryptedWithoutTimestamp } = decrypted;
+      const { createdAt, type, ...decryptedWithoutTimestamp } = decrypted;
+      expect(type).toBe('YoursWallet');
       const { createdAt: originalCreatedAt, ...originalWithoutTimestamp } = fullYoursWalletBackup;
       expect(decryptedWithoutTimestamp).toEqual(originalWithoutTimestamp);
     });
@@ -67,7 +92,8 @@ describe('YoursWallet Backup', () => {
       const decrypted = (await decryptBackup(encrypted, passphrase)) as YoursWalletBackup;
       // The createdAt field is added automatically if not present
       expect(decrypted.createdAt).toBeDefined();
-      const { createdAt, ...decryptedWithoutTimestamp } = decrypted;
+      const { createdAt, type, ...decryptedWithoutTimestamp } = decrypted;
+      expect(type).toBe('YoursWallet');
       const { createdAt: originalCreatedAt, ...originalWithoutTimestamp } =
         minimalYoursWalletBackup;
       expect(decryptedWithoutTimestamp).toEqual(originalWithoutTimestamp);
@@ -102,7 +128,8 @@ describe('YoursWallet Backup', () => {
       const decrypted = (await decryptBackup(encrypted, passphrase)) as YoursWalletBackup;
       // The createdAt field is added automatically if not present
       expect(decrypted.createdAt).toBeDefined();
-      const { createdAt, ...decryptedWithoutTimestamp } = decrypted;
+      const { createdAt, type, ...decryptedWithoutTimestamp } = decrypted;
+      expect(type).toBe('YoursWallet');
       expect(decryptedWithoutTimestamp).toEqual(backupWithoutIdentity);
     });
   });
@@ -124,8 +151,6 @@ describe('YoursWallet Backup', () => {
       salt: 'abc123',
       version: 1,
     };
-    // A msgpack-decodable sync chunk uses plain JSON-safe values so it also
-    // survives a JSON encrypt/decrypt round-trip.
     const syncChunk = { provenTxs: [], transactions: [{ txid: 'deadbeef', height: 737660 }] };
     const storageSettings = { storageIdentityKey: '02abc', chain: 'main' };
 
@@ -149,16 +174,19 @@ describe('YoursWallet Backup', () => {
       const parsed = parseYoursWalletZip(buildV2Zip());
       expect(parsed.manifest?.version).toBe(2);
       expect(parsed.chromeStorage.selectedAccount).toBe(identityAddress);
-      expect(parsed.settings).toEqual(storageSettings);
-      expect(parsed.chunks?.[`${identityAddress}/chunk-0000.bin`]).toEqual(syncChunk);
+      expect(parsed.rawEntries?.['settings.bin']).toEqual(encodeMsgpack(storageSettings));
+      expect(decodeYoursWalletZipEntries(parsed)).toEqual({
+        settings: storageSettings,
+        chunks: { [`${identityAddress}/chunk-0000.bin`]: syncChunk },
+      });
     });
 
     it('parses a legacy (keys-only) backup with no manifest', () => {
       const zip = zipSync({ 'chromeStorage.json': strToU8(JSON.stringify(chromeStorage)) });
       const parsed = parseYoursWalletZip(zip);
       expect(parsed.manifest).toBeUndefined();
-      expect(parsed.settings).toBeUndefined();
-      expect(parsed.chunks).toBeUndefined();
+      expect(parsed.rawEntries).toBeUndefined();
+      expect(decodeYoursWalletZipEntries(parsed)).toEqual({});
       expect(parsed.chromeStorage.selectedAccount).toBe(identityAddress);
     });
 
@@ -176,6 +204,136 @@ describe('YoursWallet Backup', () => {
       expect(isYoursWalletZipBackup({ chromeStorage: 'not an object' } as never)).toBe(false);
     });
 
+    it('rebuilds a v2 ZIP that parses back to the same backup', () => {
+      const parsed = parseYoursWalletZip(buildV2Zip());
+      const rebuilt = parseYoursWalletZip(buildYoursWalletZip(parsed));
+      expect(rebuilt).toEqual(parsed);
+      expect(Object.keys(rebuilt.rawEntries ?? {})).toEqual([
+        'settings.bin',
+        `${identityAddress}/chunk-0000.bin`,
+      ]);
+    });
+
+    it('rebuilds v1 and legacy ZIPs without adding entries', () => {
+      const v1: YoursWalletZipBackup = {
+        chromeStorage,
+        manifest: {
+          version: 1,
+          createdAt: '2025-01-01T00:00:00.000Z',
+          chain: 'test',
+          identityKey: '02abc',
+          chunkCount: 1,
+        },
+        settings: storageSettings,
+        chunks: { 'chunk-0000.bin': syncChunk },
+      };
+      const { rawEntries, ...rebuilt } = parseYoursWalletZip(buildYoursWalletZip(v1));
+      expect(decodeYoursWalletZipEntries({ chromeStorage, rawEntries })).toEqual({
+        settings: storageSettings,
+        chunks: { 'chunk-0000.bin': syncChunk },
+      });
+      expect(rebuilt).toEqual({ chromeStorage, manifest: v1.manifest });
+
+      const legacy = parseYoursWalletZip(buildYoursWalletZip({ chromeStorage }));
+      expect(legacy).toEqual({ chromeStorage });
+    });
+
+    it('omits bitcoin-backup fields from the rebuilt ZIP', () => {
+      const rebuilt = parseYoursWalletZip(
+        buildYoursWalletZip({ chromeStorage, label: 'Mine', type: 'YoursWalletZip' })
+      );
+      expect(rebuilt).toEqual({ chromeStorage });
+    });
+
+    it('rejects chunks outside the manifest layout', () => {
+      const parsed = parseYoursWalletZip(buildV2Zip());
+      const misplaced = { ...parsed, chunks: { 'chunk-0000.bin': syncChunk } };
+      expect(() => buildYoursWalletZip(misplaced)).toThrow(InvalidPayloadError);
+
+      const nested = {
+        chromeStorage,
+        chunks: { [`${identityAddress}/chunk-0000.bin`]: syncChunk },
+      };
+      expect(() => buildYoursWalletZip(nested)).toThrow('must be at the ZIP root');
+    });
+
+    it('reports a v2 backup that matches its manifest as valid', () => {
+      const report = validateYoursWalletZip(parseYoursWalletZip(buildV2Zip()));
+      expect(report).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('rejects a truncated export during parse', () => {
+      const parsed = parseYoursWalletZip(buildV2Zip());
+      const manifest = parsed.manifest as YoursWalletBackupManifestV2;
+      manifest.accounts[0].chunkCount = 3;
+      const truncated = buildYoursWalletZip(parsed);
+
+      expect(() => parseYoursWalletZip(truncated)).toThrow(CorruptBackupError);
+      expect(() => parseYoursWalletZip(truncated)).toThrow(
+        `${identityAddress}: 3 chunks declared, 1 present`
+      );
+      expect(parseYoursWalletZip(truncated, { validate: false }).manifest).toEqual(manifest);
+    });
+
+    it('reports chain, layout and account mismatches', () => {
+      const report = validateYoursWalletZip({
+        chromeStorage: { accounts: { [identityAddress]: {}, '1Other': {} } },
+        manifest: {
+          version: 2,
+          createdAt: 'yesterday',
+          chain: 'regtest' as 'main',
+          accounts: [
+            { identityKey: '02abc', identityAddress, name: 'Account 1', chunkCount: 0 },
+            { identityKey: '02def', identityAddress: '1Missing', name: 'Gone', chunkCount: 0 },
+          ],
+        },
+        chunks: { 'chunk-0000.bin': syncChunk, [`${identityAddress}/chunk-0000.bin`]: syncChunk },
+      });
+      expect(report.valid).toBe(false);
+      expect(report.errors).toEqual([
+        { message: "manifest chain must be 'main' or 'test', got regtest" },
+        { message: 'chunk-0000.bin is not under a manifest account folder' },
+      ]);
+      expect(report.warnings).toEqual([
+        { message: 'manifest createdAt is not an ISO 8601 timestamp' },
+        { message: 'settings.bin is missing' },
+        { account: identityAddress, message: '0 chunks declared, 1 present' },
+        { account: '1Missing', message: 'not present in chromeStorage accounts' },
+        { account: '1Other', message: 'chromeStorage account missing from the manifest' },
+      ]);
+    });
+
+    it('checks the flat chunk layout of v1 manifests', () => {
+      const report = validateYoursWalletZip({
+        chromeStorage,
+        manifest: {
+          version: 1,
+          createdAt: '2025-01-01T00:00:00.000Z',
+          chain: 'main',
+          identityKey: '02abc',
+          chunkCount: 2,
+        },
+        settings: storageSettings,
+        chunks: { 'chunk-0000.bin': syncChunk, [`${identityAddress}/chunk-0001.bin`]: syncChunk },
+      });
+      expect(report.errors).toEqual([
+        { message: `${identityAddress}/chunk-0001.bin must be at the ZIP root for a v1 backup` },
+        { message: '2 chunks declared, 1 present' },
+      ]);
+    });
+
+    it('rejects unknown manifest versions', () => {
+      const report = validateYoursWalletZip({
+        chromeStorage,
+        manifest: { version: 3 } as unknown as YoursWalletBackupManifestV2,
+      });
+      expect(report).toEqual({
+        valid: false,
+        errors: [{ message: 'unsupported manifest version 3' }],
+        warnings: [],
+      });
+    });
+
     it('encrypts and decrypts a parsed ZIP backup', async () => {
       const parsed = parseYoursWalletZip(buildV2Zip());
       parsed.label = 'Yours Wallet Full Backup';
@@ -185,9 +343,260 @@ describe('YoursWallet Backup', () => {
 
       const decrypted = (await decryptBackup(encrypted, passphrase)) as YoursWalletZipBackup;
       expect(decrypted.createdAt).toBeDefined();
-      const { createdAt, ...decryptedWithoutTimestamp } = decrypted;
+      const { createdAt, type, ...decryptedWithoutTimestamp } = decrypted;
+      expect(type).toBe('YoursWalletZip');
       expect(decryptedWithoutTimestamp).toEqual(parsed);
     });
+
+    it('restores msgpack settings and chunks byte for byte', async () => {
+      // Values JSON cannot represent, encoded the way wallet-toolbox writes them
+      const settingsBytes = encodeMsgpack({ maxOutputs: 2n ** 60n }, { useBigInt64: true });
+      const chunkBytes = encodeMsgpack({
+        rawTx: new Uint8Array([1, 0, 0, 0, 0xff]),
+        updated_at: new Date('2025-01-01T00:00:00.123Z'),
+        satoshis: 2 ** 40,
+        tag: new ExtData(7, new Uint8Array([9, 9])),
+      });
+      const zip = zipSync({
+        'manifest.json': strToU8(
+          JSON.stringify({
+            version: 1,
+            createdAt: '2025-01-01T00:00:00.000Z',
+            chain: 'main',
+            identityKey: '02abc',
+            chunkCount: 1,
+          })
+        ),
+        'chromeStorage.json': strToU8(JSON.stringify(chromeStorage)),
+        'settings.bin': settingsBytes,
+        'chunk-0000.bin': chunkBytes,
+      });
+      const parsed = parseYoursWalletZip(zip);
+
+      const encrypted = await encryptBackup(parsed, passphrase, LEGACY_PBKDF2_ITERATIONS);
+      const envelope = parseEnvelope(Uint8Array.from(Utils.toArray(encrypted, 'base64')));
+      expect(envelope.header.encoding).toBe('msgpack');
+
+      const decrypted = (await decryptBackup(encrypted, passphrase)) as YoursWalletZipBackup;
+      const restored = unzipSync(buildYoursWalletZip(decrypted));
+      expect(restored['settings.bin']).toEqual(settingsBytes);
+      expect(restored['chunk-0000.bin']).toEqual(chunkBytes);
+
+      const shares = splitBackup(parsed, { threshold: 2, shares: 2 });
+      const combined = combineShares(shares) as YoursWalletZipBackup;
+      expect(unzipSync(buildYoursWalletZip(combined))['chunk-0000.bin']).toEqual(chunkBytes);
+    });
+
+    it('keeps non-canonical msgpack entries byte for byte', async () => {
+      // { a: 1 } with 1 written as a float64, which a re-encode would shorten to a fixint
+      const chunkBytes = Uint8Array.from([
+        0x81, 0xa1, 0x61, 0xcb, 0x3f, 0xf0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+      ]);
+      expect(encodeMsgpack({ a: 1 })).not.toEqual(chunkBytes);
+      const zip = zipSync({
+        'chromeStorage.json': strToU8(JSON.stringify(chromeStorage)),
+        'chunk-0000.bin': chunkBytes,
+      });
+      const parsed = parseYoursWalletZip(zip);
+      expect(decodeYoursWalletZipEntries(parsed).chunks).toEqual({ 'chunk-0000.bin': { a: 1 } });
+
+      const encrypted = await encryptBackup(parsed, passphrase, LEGACY_PBKDF2_ITERATIONS);
+      const decrypted = (await decryptBackup(encrypted, passphrase)) as YoursWalletZipBackup;
+      expect(unzipSync(buildYoursWalletZip(decrypted))['chunk-0000.bin']).toEqual(chunkBytes);
+    });
+
+    it('rejects raw entries that are not msgpack entry bytes', () => {
+      const stray = { chromeStorage, rawEntries: { 'notes.txt': new Uint8Array([1]) } };
+      expect(() => buildYoursWalletZip(stray)).toThrow(InvalidPayloadError);
+      const decoded = {
+        chromeStorage,
+        rawEntries: { 'settings.bin': 'not bytes' as unknown as Uint8Array },
+      };
+      expect(() => buildYoursWalletZip(decoded)).toThrow('raw entry settings.bin');
+    });
+  });
+
+  describe('Encrypted chromeStorage keys', () => {
+    // Generated with crypto-js 4.2: PBKDF2(password, salt, { keySize: 8, iterations: 1000 })
+    // with SHA-256 (account A) and SHA-1 (account B), then AES.encrypt(JSON.stringify(keys), passKey)
+    const walletPassword = 'yoursWalletPass1';
+    const salt = 'a1b2c3d4e5f60718293a4b5c6d7e8f90';
+    const sha256PassKey = '5ec8ca2155895c06635cf822abedd79a140918bc597ba62d902b245e0b22a4c7';
+    const sha256EncryptedKeys =
+      'U2FsdGVkX18FlNS1zbC+zEZ71UXg2v/ztvqXf6sSR7EetaxBslAOFOaY8/YiiZAW3BHR0j1s9Fgi4SoE' +
+      'nc25fje47cJ12U9KnF3SAlafAMgt5s4RmUBaR/+92UoZlwpUhj6BRshr+ntIInMS9tSqdVbkRZ8vvguR' +
+      'AW4QGSj9buSa69WKY4WOGsRNjTC0wWGGxziWToUouZmVaVSkDQGlcf5ljm76TTX/O62q8bTIn2O280l1' +
+      'XDSylL9NgThCU3YUgIOoWDn73Q5/Cz79MGdQUXPcvJ5o+GhZjOfZsf7Pl3GJfSdhkKI0/7W0nIRYJs/n' +
+      'cNH3FEu4dyuAL8vazazIw7eY6U0to3K2EpmixtBqMmAQosRntvgvstOah+B7OFYgJRS0IJMqhA/A8P8L' +
+      'Pb7V9IJ1dMm0orI4nr+b+jy29hXzQmvpyVKEVUBn5qJMh8uyMycntj8XD3/WHiAqeem+f70B/ChAYn1i' +
+      'yueAxqyKjDibbbp0ZNX2mW/FY+JnXfvwdszlKgWkgquZ+9BthJPNRtAD2CaIlqewuk2a3Rb1N9StHMww' +
+      'UpM2eT5f/NiCZ5Ea2Ws2yipvBrEFm++lIbVN7rTGSRgOZ4b4z3T+vi60r34r6RE9CY87Dv1kT1vWvJIC' +
+      'Bhdzr3mcmkRPJq5CmBSPqpZp5e7sKZIn0g7r4Y55GPP0GxsB/JZSKx1+tgNDHRnywAptOweYz6hwwHNB' +
+      'ttkuuQm2Cgo9vHgiXxF+yp9AgJMUZ/homlrPqZJF/UrRW6e0TZIPdKEVmFe8oirgS9eydw==';
+    const sha1EncryptedKeys =
+      'U2FsdGVkX19+LIyN+PYlAdJIriHw+6jIKUKLjdCEVwQrJULQLgT61HIXtg2JpiSMOsrz9Ui348cBy4x8' +
+      'dPT3zLCaS24YuBMpLL5kCv9+zehgpf9JWUzeIb4d+TyvNOSFanny9AC8a9VuWzuuAXn9Pp7yAOhSUlHX' +
+      'XJibqGD4ow42MI9sd4zOTABgK8Eezs+4CINZYM7LqRlcO4JMZcOJqaG42mfrJIaIi2JH0Te1iVSIggv9' +
+      'apmiopGdDsZBlfrkgTNqq9MhhIwHjo4nItVSUQCC/yjbYho/RA/2kd6KhwN3YQBrzEI2PqTXAgDJC5rW' +
+      'o0T6tSKJ7TwXQiQG7AOKkKoUYIR41DSMaqRWOvR8kxPrHf5X0F8mjR22EEfwlaFSQIey6PmNJ4VUqcji' +
+      'kqWlHn8Rfmbm8N7wK3s6MTwtJarqhFSbFdfplzU8uXE9mwGhNp31sYgaKUPfZCEnAbUOZBDPVORciHJf' +
+      'MtS4X3fL/K+ESCdsSgd7Z+TEFPgWcVC0OF2H7O6Hh3qbp2TldGsTGFTPIq9EDxy0SMZKkP0M4fql4/iY' +
+      'bHODNV8DQAMCdoktHmsXrrDZ9K6wg3svtOzDfYYnEQAYyxMsExW2v0J8Ue8YRJGq+Q6YlauwXxv0FFL8' +
+      'g6nMR0WWiZbkXB7Y9dc2JOSAuSMUVbSe65fnDvyW8XyVoyb+gyb8fdPGmmtVIAf7GCHKl3ttFEa5sG53' +
+      'ZgivO8giWba5uE0f1+qjDOgoUbfg48Uu1dSb62Umn8bKBCzgUiM8RUp5/eRtxGIPI8dkwQ==';
+
+    const expectedKeys = {
+      mnemonic:
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+      payPk: 'L1RrrnXkcKut5DEMwtDthjwRcTTwED36thyL1DebVrKuwvohjMNi',
+      payDerivationPath: "m/44'/236'/0'/1/0",
+      ordPk: 'L2RrrnXkcKut5DEMwtDthjwRcTTwED36thyL1DebVrKuwvohjMNi',
+      ordDerivationPath: "m/44'/236'/1'/0/0",
+      identityPk: 'L3RrrnXkcKut5DEMwtDthjwRcTTwED36thyL1DebVrKuwvohjMNi',
+      identityDerivationPath: "m/0'/236'/0'/0/0",
+    };
+
+    it('should decrypt every account and label it with the account name', async () => {
+      const chromeStorage = {
+        salt,
+        passKey: sha256PassKey,
+        selectedAccount: '1IdA',
+        accounts: {
+          '1IdA': { name: 'Main', encryptedKeys: sha256EncryptedKeys },
+          '1IdB': { name: 'Savings', encryptedKeys: sha256EncryptedKeys },
+        },
+      };
+      const backups = await decryptYoursWalletKeys(chromeStorage, walletPassword);
+      expect(backups).toEqual([
+        { ...expectedKeys, label: 'Main' },
+        { ...expectedKeys, label: 'Savings' },
+      ]);
+      expect(isYoursWalletBackup(backups[0])).toBe(true);
+    });
+
+    it('should fall back to SHA-1 passKeys from older crypto-js', async () => {
+      const chromeStorage = { salt, accounts: { '1IdB': { encryptedKeys: sha1EncryptedKeys } } };
+      const [backup] = await decryptYoursWalletKeys(chromeStorage, walletPassword);
+      expect(backup).toEqual(expectedKeys);
+    });
+
+    it('should read pre-multi-account storage with top-level encryptedKeys', async () => {
+      const chromeStorage = { salt, encryptedKeys: sha256EncryptedKeys };
+      const backups = await decryptYoursWalletKeys(chromeStorage, walletPassword);
+      expect(backups).toEqual([expectedKeys]);
+    });
+
+    it('should leave out a missing mnemonic and identity key', async () => {
+      // crypto-js AES: OpenSSL "Salted__" format, key and IV from EVP_BytesToKey (MD5)
+      const encryptCryptoJs = (plaintext: string, passKey: string) => {
+        const openSslSalt = randomBytes(8);
+        let derived = Buffer.alloc(0);
+        let block = Buffer.alloc(0);
+        while (derived.length < 48) {
+          block = createHash('md5')
+            .update(Buffer.concat([block, Buffer.from(passKey), openSslSalt]))
+            .digest();
+          derived = Buffer.concat([derived, block]);
+        }
+        const cipher = createCipheriv('aes-256-cbc', derived.subarray(0, 32), derived.subarray(32));
+        const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+        return Buffer.concat([Buffer.from('Salted__'), openSslSalt, ciphertext]).toString('base64');
+      };
+      const walletWif = PrivateKey.fromRandom().toWif();
+      const ordWif = PrivateKey.fromRandom().toWif();
+      const encryptedKeys = encryptCryptoJs(JSON.stringify({ walletWif, ordWif }), sha256PassKey);
+
+      const [backup] = await decryptYoursWalletKeys({ salt, encryptedKeys }, walletPassword);
+      expect(backup).toEqual({
+        payPk: walletWif,
+        payDerivationPath: "m/44'/236'/0'/1/0",
+        ordPk: ordWif,
+        ordDerivationPath: "m/44'/236'/1'/0/0",
+      });
+      const encrypted = await encryptBackup(backup, 'p@ssphrase', {
+        iterations: 1000,
+        validateKeys: true,
+      });
+      expect(await decryptBackup(encrypted, 'p@ssphrase')).toMatchObject(backup);
+    });
+
+    it('should reject a wrong wallet password', async () => {
+      const withPassKey = {
+        salt,
+        passKey: sha256PassKey,
+        accounts: { '1IdA': { encryptedKeys: sha256EncryptedKeys } },
+      };
+      const withoutPassKey = { salt, accounts: { '1IdA': { encryptedKeys: sha256EncryptedKeys } } };
+      await expect(decryptYoursWalletKeys(withPassKey, 'wrongPassword')).rejects.toBeInstanceOf(
+        InvalidPassphraseError
+      );
+      await expect(decryptYoursWalletKeys(withoutPassKey, 'wrongPassword')).rejects.toBeInstanceOf(
+        InvalidPassphraseError
+      );
+    });
+
+    it('should reject storage without a salt or encrypted keys', async () => {
+      await expect(decryptYoursWalletKeys({ accounts: {} }, walletPassword)).rejects.toBeInstanceOf(
+        UnsupportedFormatError
+      );
+      await expect(decryptYoursWalletKeys({ salt, accounts: {} }, walletPassword)).rejects.toThrow(
+        'no encrypted keys found'
+      );
+    });
+
+    it('should pair each account with its v2 manifest entry', async () => {
+      const backup: YoursWalletZipBackup = {
+        chromeStorage: {
+          salt,
+          passKey: sha256PassKey,
+          accounts: {
+            '1IdA': { name: 'Stale name', encryptedKeys: sha256EncryptedKeys },
+            '1IdB': { encryptedKeys: sha256EncryptedKeys },
+          },
+        },
+        manifest: {
+          version: 2,
+          createdAt: '2025-01-01T00:00:00.000Z',
+          chain: 'main',
+          accounts: [
+            { identityKey: '02aa', identityAddress: '1IdA', name: 'Main', chunkCount: 1 },
+            { identityKey: '02bb', identityAddress: '1IdB', name: 'Savings', chunkCount: 0 },
+          ],
+        },
+      };
+      const accounts = await extractYoursWalletAccounts(backup, walletPassword);
+      expect(accounts).toEqual([
+        {
+          identityAddress: '1IdA',
+          identityKey: '02aa',
+          name: 'Main',
+          backup: { ...expectedKeys, label: 'Main' },
+        },
+        {
+          identityAddress: '1IdB',
+          identityKey: '02bb',
+          name: 'Savings',
+          backup: { ...expectedKeys, label: 'Savings' },
+        },
+      ]);
+    });
+
+    it('should take the identity key of a single account from a v1 manifest', async () => {
+      const backup: YoursWalletZipBackup = {
+        chromeStorage: { salt, accounts: { '1IdA': { encryptedKeys: sha256EncryptedKeys } } },
+        manifest: {
+          version: 1,
+          createdAt: '2025-01-01T00:00:00.000Z',
+          chain: 'main',
+          identityKey: '02aa',
+          chunkCount: 1,
+        },
+      };
+      const accounts = await extractYoursWalletAccounts(backup, walletPassword);
+      expect(accounts).toEqual([
+        { identityAddress: '1IdA', identityKey: '02aa', backup: expectedKeys },
+      ]);
+    });
   });
 
   describe('Compatibility between formats', () => {